@@ -1,30 +1,16 @@
 import { z } from 'zod';
 import { Income, Expense, Asset, Liability, Goal } from '@shared/schema';
+import type { FinancialData, FinancialSummary } from './summary';
 
-// Define the schema for the AI assistant request
-const aiAssistantRequestSchema = z.object({
-  query: z.string().min(1),
-  userData: z.object({
-    incomes: z.array(z.any()),
-    expenses: z.array(z.any()),
-    assets: z.array(z.any()),
-    liabilities: z.array(z.any()),
-    goals: z.array(z.any()),
-    summary: z.object({
-      totalIncome: z.number(),
-      totalExpenses: z.number(),
-      cashFlow: z.number(),
-      perDay: z.number(),
-      passiveIncome: z.number(),
-      netWorth: z.number(),
-      netWorthChange: z.number(),
-      largestExpenseCategory: z.string(),
-      largestExpenseAmount: z.number()
-    })
-  })
+// Define the schema for the AI assistant request; the financial data and
+// summary are loaded server-side rather than trusted from the client
+export const aiAssistantRequestSchema = z.object({
+  query: z.string().min(1)
 });
 
-type AIAssistantRequest = z.infer<typeof aiAssistantRequestSchema>;
+export type AIAssistantRequest = z.infer<typeof aiAssistantRequestSchema> & {
+  userData: FinancialData & { summary: FinancialSummary };
+};
 
 // Function to analyze user data and generate personalized advice
 export function generateFinancialAdvice(request: AIAssistantRequest): string {
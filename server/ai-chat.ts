@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import type { AIConversation, AIMessage, AIPendingAction } from '@shared/schema';
+import type { IStorage } from './storage';
+import { estimateTokens, type ChatMessage, type CompletionOptions, type CompletionResult, type LLMProvider } from './llm';
+import { formatDate } from './dates';
+import { loadConvertedFinancialData, getFinancialSummary } from './summary';
+import { runToolLoop } from './ai-tools';
+import { buildFinancialContext } from './financial-context';
+import { formatMoney } from './currency';
+
+export const aiChatRequestSchema = z.object({
+  message: z.string().min(1, { message: "Message is required" }),
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().min(1).max(4096).optional(),
+  // Give the model tools to look up and change data instead of every record in the prompt
+  tools: z.boolean().default(false),
+});
+
+export const ADVISOR_SYSTEM_PROMPT = "You are a financial advisor AI assistant. Your role is to provide personalized financial advice based on the user's financial data. Always give specific, actionable advice that relates to the user's actual financial situation. If the user asks a general question, still try to relate it to their specific financial data when possible.";
+
+export function buildAdvisorMessages(financialContext: string, question: string): ChatMessage[] {
+  return [
+    { role: 'system', content: ADVISOR_SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: `Here is my financial data:\n\n${financialContext}\n\nMy question is: ${question}\n\nPlease provide personalized advice based on my financial situation.`
+    }
+  ];
+}
+
+// Query strings carry everything as text, so numbers are coerced for the
+// EventSource-friendly GET form
+export const aiChatStreamRequestSchema = aiChatRequestSchema.extend({
+  conversationId: z.string().uuid().optional(),
+  temperature: z.coerce.number().min(0).max(2).optional(),
+  maxTokens: z.coerce.number().int().min(1).max(4096).optional(),
+  tools: z.preprocess(value => value === 'true' ? true : value === 'false' ? false : value, z.boolean().default(false)),
+});
+
+export const aiConversationCreateSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+});
+
+// Prior turns sent with each follow-up; the oldest are dropped first
+export const HISTORY_TOKEN_BUDGET = 3000;
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+// Keep the most recent messages that fit the budget, always starting on a
+// user turn so the model never sees a reply without its question
+export function truncateHistory(messages: ChatMessage[], budget = HISTORY_TOKEN_BUDGET): ChatMessage[] {
+  const kept: ChatMessage[] = [];
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    used += estimateTokens(messages[i].content);
+    if (used > budget) break;
+    kept.unshift(messages[i]);
+  }
+  while (kept.length > 0 && kept[0].role !== 'user') {
+    kept.shift();
+  }
+  return kept;
+}
+
+export function conversationTitleFrom(message: string): string {
+  const title = message.replace(/\s+/g, ' ').trim();
+  return title.length > 60 ? `${title.slice(0, 57)}...` : title || DEFAULT_CONVERSATION_TITLE;
+}
+
+export const TOOLS_SYSTEM_PROMPT = "You can look up the user's data with the provided tools; use them rather than guessing. Changes such as creating an expense or updating a goal are only made once the user confirms them, so say what you have prepared and ask the user to confirm it.";
+
+export interface ConversationMessageOptions {
+  completion?: CompletionOptions;
+  // Streams the reply as it is generated
+  onToken?: (token: string) => void;
+  tools?: boolean;
+}
+
+export interface ConversationTurn {
+  userMessage: AIMessage;
+  assistantMessage: AIMessage;
+  // Writes the assistant proposed, waiting for the user to confirm
+  pendingActions: AIPendingAction[];
+}
+
+export async function buildAssistantSystemPrompt(storage: IStorage, userId: number, tools: boolean): Promise<string> {
+  if (tools) {
+    const summary = await getFinancialSummary(storage, userId);
+    return `${ADVISOR_SYSTEM_PROMPT}\n\n${TOOLS_SYSTEM_PROMPT}\n\nToday is ${formatDate(new Date())}. This month so far, in ${summary.currency}: income ${formatMoney(summary.totalIncome, summary.currency)}, expenses ${formatMoney(summary.totalExpenses, summary.currency)}, net worth ${formatMoney(summary.netWorth, summary.currency)}.`;
+  }
+  const financialContext = buildFinancialContext(await loadConvertedFinancialData(storage, userId));
+  return `${ADVISOR_SYSTEM_PROMPT}\n\nHere is the user's financial data:\n\n${financialContext}`;
+}
+
+// Ask a follow-up within a conversation: the financial data (or, with tools,
+// a short summary) goes in the system prompt, followed by as much history as
+// the budget allows. Both sides of the turn are stored only once the model
+// has answered.
+export async function sendConversationMessage(
+  storage: IStorage,
+  provider: LLMProvider,
+  conversation: AIConversation,
+  content: string,
+  { completion: options = {}, onToken, tools = false }: ConversationMessageOptions = {}
+): Promise<ConversationTurn> {
+  const userId = conversation.userId;
+  const [history, systemPrompt] = await Promise.all([
+    storage.getConversationMessages(conversation.id, userId),
+    buildAssistantSystemPrompt(storage, userId, tools),
+  ]);
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: systemPrompt },
+    ...truncateHistory(history.map(message => ({ role: message.role, content: message.content }))),
+    { role: 'user', content },
+  ];
+
+  let completion: CompletionResult;
+  let pendingActions: AIPendingAction[] = [];
+  if (tools) {
+    // Tool rounds need whole responses, so only the final answer is streamed
+    ({ completion, pendingActions } = await runToolLoop(storage, provider, userId, conversation.id, messages, options));
+    onToken?.(completion.content);
+  } else if (onToken) {
+    completion = await provider.stream(messages, onToken, options);
+  } else {
+    completion = await provider.complete(messages, options);
+  }
+
+  const [userMessage, assistantMessage] = await storage.addConversationMessages(conversation.id, [
+    { userId, role: 'user', content },
+    {
+      userId,
+      role: 'assistant',
+      content: completion.content,
+      model: completion.model,
+      promptTokens: completion.usage?.promptTokens,
+      completionTokens: completion.usage?.completionTokens,
+    },
+  ]);
+  return { userMessage, assistantMessage, pendingActions };
+}
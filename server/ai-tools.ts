@@ -0,0 +1,328 @@
+import { z } from 'zod';
+import { currencyCodeSchema, moneySchema, type AIPendingAction } from '@shared/schema';
+import { sumMoney } from '@shared/money';
+import type { IStorage } from './storage';
+import type { ChatMessage, CompletionOptions, CompletionResult, LLMProvider, ToolDefinition } from './llm';
+import { getFinancialSummary, parseSummaryWindow } from './summary';
+import { addDays, formatDate, parseDateParam } from './dates';
+import { formatMoney } from './currency';
+
+// Tools the assistant can call to read or change the user's data. Reads run
+// straight away; writes are saved as pending actions and only carried out
+// once the user confirms them.
+
+interface AssistantTool<T extends z.ZodTypeAny = z.ZodTypeAny> {
+  definition: ToolDefinition;
+  schema: T;
+  write: boolean;
+  // One-line summary shown to the user when confirming a write
+  describe?(storage: IStorage, userId: number, args: z.infer<T>): Promise<string>;
+  execute(storage: IStorage, userId: number, args: z.infer<T>): Promise<unknown>;
+}
+
+function defineTool<T extends z.ZodTypeAny>(tool: AssistantTool<T>): AssistantTool {
+  return tool;
+}
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Expected YYYY-MM-DD" });
+
+const queryExpensesTool = defineTool({
+  definition: {
+    name: 'query_expenses',
+    description: 'Look up expenses, optionally filtered by category, text in the description or notes, and an inclusive date range ending today by default. Returns the total per currency and the most recent matching expenses.',
+    parameters: {
+      type: 'object',
+      properties: {
+        category: { type: 'string', description: 'Expense category, matched case-insensitively' },
+        search: { type: 'string', description: 'Text the description or notes contain, matched case-insensitively' },
+        from: { type: 'string', description: 'First day to include, YYYY-MM-DD' },
+        to: { type: 'string', description: 'Last day to include, YYYY-MM-DD' },
+        limit: { type: 'integer', minimum: 1, maximum: 100, description: 'Most expenses to list (default 25)' },
+      },
+    },
+  },
+  schema: z.object({
+    category: z.string().trim().min(1).optional(),
+    search: z.string().trim().min(1).max(200).optional(),
+    from: dateString.optional(),
+    to: dateString.optional(),
+    limit: z.number().int().min(1).max(100).default(25),
+  }),
+  write: false,
+  async execute(storage, userId, args) {
+    const from = args.from ? parseDateParam(args.from) : undefined;
+    const to = (args.to ? parseDateParam(args.to) : undefined) ?? new Date();
+    const filter = { category: args.category, q: args.search };
+
+    // The database filters and sums; only the listed expenses are loaded
+    const [page, totals] = await Promise.all([
+      storage.listExpenses(userId, { ...filter, from, to, sort: 'date', order: 'desc', limit: args.limit, cursor: undefined }),
+      storage.getExpenseTotals(userId, from ?? new Date(0), addDays(to, 1), undefined, filter),
+    ]);
+
+    const amountsByCurrency = new Map<string, number[]>();
+    totals.forEach(total => {
+      amountsByCurrency.set(total.currency, [...(amountsByCurrency.get(total.currency) ?? []), total.total]);
+    });
+
+    return {
+      count: totals.reduce((count, total) => count + total.count, 0),
+      totals: Array.from(amountsByCurrency, ([currency, amounts]) => ({ currency, total: sumMoney(amounts, currency) })),
+      expenses: page.items.map(expense => ({
+        id: expense.id,
+        date: formatDate(new Date(expense.date)),
+        category: expense.category,
+        description: expense.description,
+        amount: expense.amount,
+        currency: expense.currency,
+      })),
+    };
+  },
+});
+
+const getSummaryTool = defineTool({
+  definition: {
+    name: 'get_summary',
+    description: 'Income, expenses, cash flow, net worth and its change for an inclusive date range (defaults to the current month).',
+    parameters: {
+      type: 'object',
+      properties: {
+        from: { type: 'string', description: 'First day, YYYY-MM-DD' },
+        to: { type: 'string', description: 'Last day, YYYY-MM-DD' },
+      },
+    },
+  },
+  schema: z.object({
+    from: dateString.optional(),
+    to: dateString.optional(),
+  }),
+  write: false,
+  async execute(storage, userId, args) {
+    const window = parseSummaryWindow(args.from, args.to);
+    if (!window) {
+      throw new Error('Invalid date range');
+    }
+    return getFinancialSummary(storage, userId, window);
+  },
+});
+
+const listGoalsTool = defineTool({
+  definition: {
+    name: 'list_goals',
+    description: 'List the user\'s savings goals with their ids, targets and progress.',
+    parameters: { type: 'object', properties: {} },
+  },
+  schema: z.object({}),
+  write: false,
+  async execute(storage, userId) {
+    const goals = await storage.getAllGoals(userId);
+    return goals.map(goal => ({
+      id: goal.id,
+      description: goal.description,
+      targetAmount: goal.targetAmount,
+      currentAmount: goal.currentAmount,
+      targetDate: formatDate(new Date(goal.targetDate)),
+      percentComplete: goal.targetAmount > 0 ? Math.round((goal.currentAmount / goal.targetAmount) * 100) : 100,
+    }));
+  },
+});
+
+const createExpenseTool = defineTool({
+  definition: {
+    name: 'create_expense',
+    description: 'Record a new expense. The user is asked to confirm before it is saved.',
+    parameters: {
+      type: 'object',
+      properties: {
+        category: { type: 'string' },
+        amount: { type: 'number', exclusiveMinimum: 0 },
+        currency: { type: 'string', description: 'Three-letter currency code, defaults to the user\'s base currency' },
+        description: { type: 'string' },
+        date: { type: 'string', description: 'YYYY-MM-DD, defaults to today' },
+        notes: { type: 'string' },
+      },
+      required: ['category', 'amount', 'description'],
+    },
+  },
+  schema: z.object({
+    category: z.string().min(1),
+    amount: moneySchema.positive(),
+    currency: currencyCodeSchema.optional(),
+    description: z.string().min(1),
+    date: dateString.optional(),
+    notes: z.string().optional(),
+  }),
+  write: true,
+  async describe(storage, userId, args) {
+    const amount = formatMoney(args.amount, args.currency ?? await storage.getBaseCurrency(userId));
+    return `Add a ${amount} ${args.category} expense "${args.description}" on ${args.date ?? formatDate(new Date())}`;
+  },
+  async execute(storage, userId, args) {
+    const date = args.date ? parseDateParam(args.date) : new Date();
+    if (!date) {
+      throw new Error('Invalid date');
+    }
+    return storage.createExpense({
+      userId,
+      category: args.category,
+      amount: args.amount,
+      currency: args.currency,
+      description: args.description,
+      date,
+      notes: args.notes,
+    });
+  },
+});
+
+const updateGoalProgressTool = defineTool({
+  definition: {
+    name: 'update_goal_progress',
+    description: 'Change how much has been saved towards a goal, either by setting the amount or adding to it. The user is asked to confirm first. Use list_goals to find the goal id.',
+    parameters: {
+      type: 'object',
+      properties: {
+        goalId: { type: 'string' },
+        currentAmount: { type: 'number', minimum: 0, description: 'New total saved' },
+        addAmount: { type: 'number', description: 'Amount to add to the current total' },
+      },
+      required: ['goalId'],
+    },
+  },
+  schema: z.object({
+    goalId: z.string().uuid(),
+    currentAmount: moneySchema.min(0).optional(),
+    addAmount: moneySchema.optional(),
+  }).refine(args => (args.currentAmount === undefined) !== (args.addAmount === undefined), {
+    message: 'Provide either currentAmount or addAmount',
+  }),
+  write: true,
+  async describe(storage, userId, args) {
+    const goal = await storage.getGoal(args.goalId, userId);
+    if (!goal) {
+      throw new Error('Goal not found');
+    }
+    return args.addAmount !== undefined
+      ? `Add ${formatMoney(args.addAmount, goal.currency)} to goal "${goal.description}"`
+      : `Set progress on goal "${goal.description}" to ${formatMoney(args.currentAmount!, goal.currency)}`;
+  },
+  async execute(storage, userId, args) {
+    const goal = await storage.getGoal(args.goalId, userId);
+    if (!goal) {
+      throw new Error('Goal not found');
+    }
+    if ((await storage.getGoalAssets(goal.id, userId)).length > 0) {
+      throw new Error('This goal follows the value of its linked assets and cannot be updated directly');
+    }
+    if (args.addAmount !== undefined) {
+      // Added money goes through the contribution ledger like any other saving
+      const amount = Math.max(args.addAmount, -goal.currentAmount);
+      if (amount !== 0) {
+        await storage.addGoalContribution({ goalId: goal.id, userId, contributionDate: new Date(), amount });
+      }
+      return { ...goal, currentAmount: sumMoney([goal.currentAmount, amount], goal.currency) };
+    }
+    await storage.updateGoal(goal.id, { currentAmount: args.currentAmount! }, userId);
+    return { ...goal, currentAmount: args.currentAmount! };
+  },
+});
+
+export const assistantTools: AssistantTool[] = [
+  queryExpensesTool,
+  getSummaryTool,
+  listGoalsTool,
+  createExpenseTool,
+  updateGoalProgressTool,
+];
+
+export const assistantToolDefinitions = assistantTools.map(tool => tool.definition);
+
+function findTool(name: string): AssistantTool | undefined {
+  return assistantTools.find(tool => tool.definition.name === name);
+}
+
+// Guards against a model that keeps calling tools without answering
+export const MAX_TOOL_ROUNDS = 5;
+
+export interface ToolLoopResult {
+  completion: CompletionResult;
+  pendingActions: AIPendingAction[];
+}
+
+// Let the model call tools until it answers in text. Each call's result is
+// fed back as a tool message; writes come back as pending confirmation.
+export async function runToolLoop(
+  storage: IStorage,
+  provider: LLMProvider,
+  userId: number,
+  conversationId: string | undefined,
+  messages: ChatMessage[],
+  options: CompletionOptions = {}
+): Promise<ToolLoopResult> {
+  const transcript = [...messages];
+  const pendingActions: AIPendingAction[] = [];
+
+  for (let round = 1; ; round++) {
+    const completion = await provider.complete(transcript, { ...options, tools: assistantToolDefinitions });
+    if (!completion.toolCalls?.length) {
+      return { completion, pendingActions };
+    }
+    // Out of rounds: settle for whatever text came back
+    if (round === MAX_TOOL_ROUNDS) {
+      return {
+        completion: {
+          ...completion,
+          content: completion.content || "I couldn't finish looking that up. Please try asking in a different way.",
+          toolCalls: undefined,
+        },
+        pendingActions,
+      };
+    }
+
+    transcript.push({ role: 'assistant', content: completion.content, toolCalls: completion.toolCalls });
+    for (const call of completion.toolCalls) {
+      let result: unknown;
+      try {
+        const tool = findTool(call.name);
+        if (!tool) {
+          throw new Error(`Unknown tool "${call.name}"`);
+        }
+        const args = tool.schema.parse(JSON.parse(call.arguments));
+        console.log('Running assistant tool:', { tool: call.name, args });
+
+        if (tool.write) {
+          const action = await storage.createPendingAction({
+            userId,
+            conversationId,
+            tool: call.name,
+            arguments: args,
+            description: tool.describe ? await tool.describe(storage, userId, args) : call.name,
+          });
+          pendingActions.push(action);
+          result = {
+            status: 'pending_confirmation',
+            actionId: action.id,
+            description: action.description,
+            message: 'Not done yet: the user has to confirm this change.',
+          };
+        } else {
+          result = await tool.execute(storage, userId, args);
+        }
+      } catch (error) {
+        const message = error instanceof z.ZodError
+          ? error.errors.map(issue => `${issue.path.join('.') || 'arguments'}: ${issue.message}`).join('; ')
+          : error instanceof Error ? error.message : 'Tool failed';
+        result = { error: message };
+      }
+      transcript.push({ role: 'tool', toolCallId: call.id, content: JSON.stringify(result) });
+    }
+  }
+}
+
+// Carry out a confirmed write with the arguments the user approved
+export async function executePendingAction(storage: IStorage, action: AIPendingAction): Promise<unknown> {
+  const tool = findTool(action.tool);
+  if (!tool || !tool.write) {
+    throw new Error(`Unknown action "${action.tool}"`);
+  }
+  return tool.execute(storage, action.userId, tool.schema.parse(action.arguments));
+}
@@ -4,9 +4,25 @@ import { users } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
+import { randomUUID } from "crypto";
 
 const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
 
+// EventSource cannot set headers, so an event stream is opened with a
+// short-lived token in its query instead, which is only accepted once
+const STREAM_TOKEN_PURPOSE = "event-stream";
+const STREAM_TOKEN_TTL_SECONDS = 60;
+// Ids of stream tokens already used, with when each expires
+const usedStreamTokens = new Map<string, number>();
+
+interface TokenPayload {
+  id: number;
+  username: string;
+  purpose?: string;
+  jti?: string;
+  exp?: number;
+}
+
 export interface AuthRequest extends Request {
   user?: {
     id: number;
@@ -19,6 +35,11 @@ export const authenticateToken = async (
   res: Response,
   next: NextFunction
 ) => {
+  // Already authenticated by a stream token
+  if (req.user) {
+    return next();
+  }
+
   const authHeader = req.headers["authorization"];
   const token = authHeader && authHeader.split(" ")[1];
 
@@ -27,8 +48,43 @@ export const authenticateToken = async (
   }
 
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { id: number; username: string };
-    req.user = decoded;
+    const decoded = jwt.verify(token, JWT_SECRET) as TokenPayload;
+    // Stream tokens only open the stream they were issued for
+    if (decoded.purpose) {
+      return res.status(403).json({ error: "Invalid token" });
+    }
+    req.user = { id: decoded.id, username: decoded.username };
+    next();
+  } catch (error) {
+    return res.status(403).json({ error: "Invalid token" });
+  }
+};
+
+// Authenticates a GET request by its `stream_token` query parameter, if it
+// has one; mount it only on event stream routes, ahead of authenticateToken
+export const authenticateStreamToken = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  const token = req.query.stream_token;
+  if (req.method !== "GET" || typeof token !== "string") {
+    return next();
+  }
+
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as TokenPayload;
+    if (decoded.purpose !== STREAM_TOKEN_PURPOSE || !decoded.jti || usedStreamTokens.has(decoded.jti)) {
+      return res.status(403).json({ error: "Invalid token" });
+    }
+
+    const now = Date.now();
+    usedStreamTokens.forEach((expiresAt, jti) => {
+      if (expiresAt <= now) usedStreamTokens.delete(jti);
+    });
+    usedStreamTokens.set(decoded.jti, (decoded.exp ?? 0) * 1000);
+
+    req.user = { id: decoded.id, username: decoded.username };
     next();
   } catch (error) {
     return res.status(403).json({ error: "Invalid token" });
@@ -53,6 +109,14 @@ export const generateToken = (user: { id: number; username: string }): string =>
   });
 };
 
+export const generateStreamToken = (user: { id: number; username: string }): { token: string; expiresAt: Date } => {
+  const token = jwt.sign({ id: user.id, username: user.username, purpose: STREAM_TOKEN_PURPOSE }, JWT_SECRET, {
+    expiresIn: STREAM_TOKEN_TTL_SECONDS,
+    jwtid: randomUUID(),
+  });
+  return { token, expiresAt: new Date(Date.now() + STREAM_TOKEN_TTL_SECONDS * 1000) };
+};
+
 export const login = async (username: string, password: string) => {
   const user = await db.select().from(users).where(eq(users.username, username)).limit(1);
   
@@ -0,0 +1,213 @@
+import { z } from 'zod';
+import { subtractMoney, sumMoney } from '@shared/money';
+import type { IStorage } from './storage';
+import { CurrencyConverter, convertRecord, appliedRates, type AppliedRate, type Converted } from './currency';
+import { formatDate } from './dates';
+import { dateParam } from './list-queries';
+
+// The same day a year earlier, the default comparison date
+export function sameDayLastYear(date: Date): Date {
+  return new Date(date.getFullYear() - 1, date.getMonth(), date.getDate());
+}
+
+export const balanceSheetQuerySchema = z.object({
+  asOf: dateParam.optional(),
+  // Date of the comparison columns; a year before `asOf` by default
+  compareTo: dateParam.optional(),
+}).transform((query, ctx) => {
+  const today = new Date();
+  const asOf = query.asOf ?? new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const compareTo = query.compareTo ?? sameDayLastYear(asOf);
+  if (compareTo >= asOf) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['compareTo'], message: "compareTo must be before asOf" });
+  }
+  return { asOf, compareTo };
+});
+
+export type BalanceSheetQuery = z.infer<typeof balanceSheetQuerySchema>;
+
+export type Liquidity = 'current' | 'longTerm';
+
+// Asset categories and liability types are free text, so whether a line is
+// current (cash within a year) is judged from its name; anything else is
+// long-term
+const CURRENT_ASSET_PATTERN = /cash|checking|chequing|savings|deposit|money market|receivable/i;
+const CURRENT_LIABILITY_PATTERN = /credit|card|overdraft|payable|bnpl|buy now/i;
+
+export function assetLiquidity(category: string): Liquidity {
+  return CURRENT_ASSET_PATTERN.test(category) ? 'current' : 'longTerm';
+}
+
+export function liabilityLiquidity(type: string): Liquidity {
+  return CURRENT_LIABILITY_PATTERN.test(type) ? 'current' : 'longTerm';
+}
+
+// A figure as of the report date next to the same figure at the comparison
+// date
+export interface BalanceColumns {
+  amount: number;
+  priorAmount: number;
+  change: number;
+  // Null when the prior amount was zero
+  changePercent: number | null;
+}
+
+export interface BalanceSheetItem extends BalanceColumns {
+  id: string;
+  name: string;
+}
+
+export interface BalanceSheetGroup extends BalanceColumns {
+  // Asset category or liability type
+  name: string;
+  items: BalanceSheetItem[];
+}
+
+export interface BalanceSheetSection extends BalanceColumns {
+  groups: BalanceSheetGroup[];
+}
+
+export interface BalanceSheetSide extends BalanceColumns {
+  current: BalanceSheetSection;
+  longTerm: BalanceSheetSection;
+}
+
+export interface BalanceSheet {
+  asOf: string;
+  compareTo: string;
+  // Every amount is in the user's base currency, at the rates of each column's date
+  currency: string;
+  assets: BalanceSheetSide;
+  liabilities: BalanceSheetSide;
+  // Assets less liabilities, i.e. net worth
+  equity: BalanceColumns;
+  exchangeRates: AppliedRate[];
+  // Currencies without a rate, whose amounts are left out
+  missingCurrencies: string[];
+}
+
+// Amount of one asset or liability at each of the two dates, already in the
+// base currency; undefined when nothing was recorded for it yet or there is
+// no exchange rate for it
+export interface BalanceSheetEntry {
+  id: string;
+  name: string;
+  group: string;
+  liquidity: Liquidity;
+  amount?: number;
+  priorAmount?: number;
+}
+
+function columns(amount: number, priorAmount: number, currency: string): BalanceColumns {
+  const change = subtractMoney(amount, priorAmount, currency);
+  return {
+    amount,
+    priorAmount,
+    change,
+    // Relative to the size of the prior amount, so a negative equity that
+    // shrinks still shows as an improvement
+    changePercent: priorAmount !== 0 ? Math.round((change / Math.abs(priorAmount)) * 1000) / 10 : null,
+  };
+}
+
+function totalOf(parts: BalanceColumns[], currency: string): BalanceColumns {
+  return columns(
+    sumMoney(parts.map(part => part.amount), currency),
+    sumMoney(parts.map(part => part.priorAmount), currency),
+    currency
+  );
+}
+
+// Groups entries by liquidity, then by category or type, largest first
+export function buildBalanceSheetSide(entries: BalanceSheetEntry[], currency: string): BalanceSheetSide {
+  const section = (liquidity: Liquidity): BalanceSheetSection => {
+    const groups = new Map<string, BalanceSheetItem[]>();
+    entries
+      .filter(entry => entry.liquidity === liquidity)
+      .forEach(entry => {
+        const items = groups.get(entry.group) ?? [];
+        items.push({ id: entry.id, name: entry.name, ...columns(entry.amount ?? 0, entry.priorAmount ?? 0, currency) });
+        groups.set(entry.group, items);
+      });
+    const built = Array.from(groups, ([name, items]) => ({
+      name,
+      ...totalOf(items, currency),
+      items: items.sort((a, b) => b.amount - a.amount || a.name.localeCompare(b.name)),
+    })).sort((a, b) => b.amount - a.amount || a.name.localeCompare(b.name));
+    return { ...totalOf(built, currency), groups: built };
+  };
+
+  const current = section('current');
+  const longTerm = section('longTerm');
+  return { ...totalOf([current, longTerm], currency), current, longTerm };
+}
+
+// Balances come from the valuation history, which starts with the amount
+// each record was created with, so a balance sheet for a past date shows
+// what was recorded then. Assets and liabilities that have since been
+// deleted are not included.
+export async function getBalanceSheet(storage: IStorage, userId: number, { asOf, compareTo }: BalanceSheetQuery): Promise<BalanceSheet> {
+  const [assets, liabilities, assetValues, priorAssetValues, balances, priorBalances, baseCurrency, rates] = await Promise.all([
+    storage.getAllAssets(userId),
+    storage.getAllLiabilities(userId),
+    storage.getAssetValuationsAsOf(userId, asOf),
+    storage.getAssetValuationsAsOf(userId, compareTo),
+    storage.getLiabilityValuationsAsOf(userId, asOf),
+    storage.getLiabilityValuationsAsOf(userId, compareTo),
+    storage.getBaseCurrency(userId),
+    storage.getExchangeRates(userId),
+  ]);
+
+  const converter = new CurrencyConverter(baseCurrency, rates);
+  const missing = new Set<string>();
+  const converted: Converted<object>[] = [];
+
+  const inBaseCurrency = (currency: string | undefined, amount: number | undefined, date: Date): number | undefined => {
+    if (amount === undefined) return undefined;
+    const inBase = convertRecord({ currency, amount }, ['amount'], date, converter, missing);
+    if (!inBase) return undefined;
+    converted.push(inBase);
+    return inBase.amount;
+  };
+
+  const valueByAsset = new Map(assetValues.map(valuation => [valuation.assetId, valuation.value]));
+  const priorValueByAsset = new Map(priorAssetValues.map(valuation => [valuation.assetId, valuation.value]));
+  const balanceByLiability = new Map(balances.map(valuation => [valuation.liabilityId, valuation.amount]));
+  const priorBalanceByLiability = new Map(priorBalances.map(valuation => [valuation.liabilityId, valuation.amount]));
+
+  const assetEntries = assets.map(asset => ({
+    id: asset.id,
+    name: asset.name,
+    group: asset.category,
+    liquidity: assetLiquidity(asset.category),
+    amount: inBaseCurrency(asset.currency, valueByAsset.get(asset.id), asOf),
+    priorAmount: inBaseCurrency(asset.currency, priorValueByAsset.get(asset.id), compareTo),
+  }));
+  const liabilityEntries = liabilities.map(liability => ({
+    id: liability.id,
+    name: liability.description,
+    group: liability.type,
+    liquidity: liabilityLiquidity(liability.type),
+    amount: inBaseCurrency(liability.currency, balanceByLiability.get(liability.id), asOf),
+    priorAmount: inBaseCurrency(liability.currency, priorBalanceByLiability.get(liability.id), compareTo),
+  }));
+  const held = (entry: BalanceSheetEntry) => entry.amount !== undefined || entry.priorAmount !== undefined;
+
+  const assetSide = buildBalanceSheetSide(assetEntries.filter(held), baseCurrency);
+  const liabilitySide = buildBalanceSheetSide(liabilityEntries.filter(held), baseCurrency);
+
+  return {
+    asOf: formatDate(asOf),
+    compareTo: formatDate(compareTo),
+    currency: baseCurrency,
+    assets: assetSide,
+    liabilities: liabilitySide,
+    equity: columns(
+      subtractMoney(assetSide.amount, liabilitySide.amount, baseCurrency),
+      subtractMoney(assetSide.priorAmount, liabilitySide.priorAmount, baseCurrency),
+      baseCurrency
+    ),
+    exchangeRates: appliedRates(converted),
+    missingCurrencies: Array.from(missing).sort(),
+  };
+}
@@ -0,0 +1,149 @@
+import type { Budget, Expense } from '@shared/schema';
+import type { IStorage } from './storage';
+import { subtractMoney, sumMoney } from '@shared/money';
+import { endOfMonth, formatMonth } from './dates';
+import { CurrencyConverter, convertRecord, appliedRates, type AppliedRate } from './currency';
+
+export interface BudgetReportLine {
+  budgetId: string;
+  category: string;
+  limit: number;
+  rollover: boolean;
+  carryover: number;
+  available: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  overBudget: boolean;
+}
+
+export interface BudgetReport {
+  month: string;
+  lines: BudgetReportLine[];
+  // Categories with spending this month but no budget
+  unbudgeted: { category: string; spent: number }[];
+  totals: {
+    available: number;
+    spent: number;
+    remaining: number;
+    percentUsed: number;
+  };
+  // Limits and spending are in the user's base currency; expenses in other
+  // currencies are converted at the rate of their date, limits at the rate
+  // at the end of their month
+  currency: string;
+  exchangeRates: AppliedRate[];
+  // Currencies without a rate, whose limits and expenses are left out
+  missingCurrencies: string[];
+}
+
+// How many months back a rollover chain is followed
+const MAX_ROLLOVER_MONTHS = 12;
+
+function addMonths(date: Date, months: number): Date {
+  return new Date(date.getFullYear(), date.getMonth() + months, 1);
+}
+
+// Total spent per "category|YYYY-MM"
+function spendingByCategoryMonth(expenses: Expense[], currency?: string): Map<string, number> {
+  const totals = new Map<string, number>();
+  expenses.forEach(expense => {
+    const key = `${expense.category}|${formatMonth(new Date(expense.date))}`;
+    totals.set(key, sumMoney([totals.get(key) ?? 0, expense.amount], currency));
+  });
+  return totals;
+}
+
+export function buildBudgetReport(
+  month: Date,
+  budgets: Budget[],
+  expenses: Expense[],
+  currency?: string
+): Omit<BudgetReport, 'currency' | 'exchangeRates' | 'missingCurrencies'> {
+  const monthKey = formatMonth(month);
+  const spending = spendingByCategoryMonth(expenses, currency);
+  const budgetsByKey = new Map(budgets.map(budget => [`${budget.category}|${budget.month}`, budget]));
+
+  // Amount left over from the previous month that rolls into this one; an
+  // overspent month reduces the next month's allowance
+  const carryoverFor = (budget: Budget, depth: number): number => {
+    if (!budget.rollover || depth >= MAX_ROLLOVER_MONTHS) return 0;
+    const [year, monthNumber] = budget.month.split('-').map(Number);
+    const previousMonth = formatMonth(addMonths(new Date(year, monthNumber - 1, 1), -1));
+    const previous = budgetsByKey.get(`${budget.category}|${previousMonth}`);
+    if (!previous) return 0;
+
+    const previousAvailable = sumMoney([previous.limitAmount, carryoverFor(previous, depth + 1)], currency);
+    return subtractMoney(previousAvailable, spending.get(`${previous.category}|${previousMonth}`) ?? 0, currency);
+  };
+
+  const lines = budgets
+    .filter(budget => budget.month === monthKey)
+    .map(budget => {
+      const carryover = carryoverFor(budget, 0);
+      const available = sumMoney([budget.limitAmount, carryover], currency);
+      const spent = spending.get(`${budget.category}|${monthKey}`) ?? 0;
+      return {
+        budgetId: budget.id,
+        category: budget.category,
+        limit: budget.limitAmount,
+        rollover: budget.rollover,
+        carryover,
+        available,
+        spent,
+        remaining: subtractMoney(available, spent, currency),
+        percentUsed: available > 0 ? (spent / available) * 100 : spent > 0 ? 100 : 0,
+        overBudget: spent > available,
+      };
+    })
+    .sort((a, b) => a.category.localeCompare(b.category));
+
+  const budgeted = new Set(lines.map(line => line.category));
+  const unbudgeted: BudgetReport['unbudgeted'] = [];
+  spending.forEach((spent, key) => {
+    const [category, keyMonth] = key.split('|');
+    if (keyMonth === monthKey && !budgeted.has(category)) {
+      unbudgeted.push({ category, spent });
+    }
+  });
+  unbudgeted.sort((a, b) => b.spent - a.spent);
+
+  const available = sumMoney(lines.map(line => line.available), currency);
+  const spent = sumMoney(lines.map(line => line.spent), currency);
+
+  return {
+    month: monthKey,
+    lines,
+    unbudgeted,
+    totals: {
+      available,
+      spent,
+      remaining: subtractMoney(available, spent, currency),
+      percentUsed: available > 0 ? (spent / available) * 100 : 0,
+    },
+  };
+}
+
+export async function getBudgetReport(storage: IStorage, userId: number, month: Date): Promise<BudgetReport> {
+  const [budgets, expenses, baseCurrency, rates] = await Promise.all([
+    storage.getBudgets(userId),
+    storage.getExpensesBetween(userId, addMonths(month, -MAX_ROLLOVER_MONTHS), addMonths(month, 1)),
+    storage.getBaseCurrency(userId),
+    storage.getExchangeRates(userId),
+  ]);
+
+  const converter = new CurrencyConverter(baseCurrency, rates);
+  const missing = new Set<string>();
+  const converted = expenses.flatMap(expense => convertRecord(expense, ['amount'], new Date(expense.date), converter, missing) ?? []);
+  const convertedBudgets = budgets.flatMap(budget => {
+    const [year, monthNumber] = budget.month.split('-').map(Number);
+    return convertRecord(budget, ['limitAmount'], endOfMonth(new Date(year, monthNumber - 1, 1)), converter, missing) ?? [];
+  });
+
+  return {
+    ...buildBudgetReport(month, convertedBudgets, converted, baseCurrency),
+    currency: baseCurrency,
+    exchangeRates: appliedRates([...convertedBudgets, ...converted]),
+    missingCurrencies: Array.from(missing).sort(),
+  };
+}
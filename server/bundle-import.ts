@@ -0,0 +1,241 @@
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { incomeSchema, expenseSchema, assetSchema, liabilitySchema, goalSchema, goalAssetSchema, goalContributionSchema } from '@shared/schema';
+import type { IStorage, RestoreRecords } from './storage';
+import { EXPORT_MANIFEST_VERSION, exportEntities, type ExportEntity } from './export';
+import { parseDateColumn } from './dates';
+
+export const bundleImportRequestSchema = z.object({
+  bundle: z.object({
+    manifest: z.object({
+      version: z.number().int().min(1).max(EXPORT_MANIFEST_VERSION, {
+        message: `Bundle version is newer than this server supports (${EXPORT_MANIFEST_VERSION})`,
+      }),
+    }).passthrough(),
+    incomes: z.array(z.record(z.unknown())).default([]),
+    expenses: z.array(z.record(z.unknown())).default([]),
+    assets: z.array(z.record(z.unknown())).default([]),
+    liabilities: z.array(z.record(z.unknown())).default([]),
+    goals: z.array(z.record(z.unknown())).default([]),
+    // Not in version 1 bundles
+    goalAssets: z.array(z.record(z.unknown())).default([]),
+    goalContributions: z.array(z.record(z.unknown())).default([]),
+  }),
+  // Merge adds the bundle alongside existing data; replace deletes it first
+  mode: z.enum(['merge', 'replace']).default('merge'),
+  commit: z.boolean().default(false),
+});
+
+export type BundleImportRequest = z.infer<typeof bundleImportRequestSchema>;
+
+// Exports write ISO timestamps, but date-only values are read as local days
+// like the date columns themselves
+const bundleDate = z.preprocess(
+  value => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? parseDateColumn(value) : value,
+  z.coerce.date()
+);
+
+// Bundle records carry their original id and JSON dates; ownership comes
+// from the importing user and ids are reassigned on restore
+const recordSchemas = {
+  incomes: incomeSchema.omit({ userId: true }).extend({
+    id: z.string().optional(),
+    startDate: bundleDate,
+    endDate: bundleDate.optional(),
+    createdAt: z.coerce.date().optional(),
+  }),
+  expenses: expenseSchema.omit({ userId: true }).extend({
+    id: z.string().optional(),
+    date: bundleDate,
+    createdAt: z.coerce.date().optional(),
+  }),
+  assets: assetSchema.omit({ userId: true }).extend({
+    id: z.string().optional(),
+    createdAt: z.coerce.date().optional(),
+  }),
+  liabilities: liabilitySchema.omit({ userId: true }).extend({
+    id: z.string().optional(),
+    createdAt: z.coerce.date().optional(),
+  }),
+  goals: goalSchema.omit({ userId: true }).extend({
+    id: z.string().optional(),
+    targetDate: bundleDate,
+    createdAt: z.coerce.date().optional(),
+  }),
+  // Goal and asset ids refer to records elsewhere in the bundle
+  goalAssets: goalAssetSchema.omit({ userId: true }).extend({
+    id: z.string().optional(),
+    goalId: z.string(),
+    assetId: z.string(),
+    createdAt: z.coerce.date().optional(),
+  }),
+  goalContributions: goalContributionSchema.omit({ userId: true }).extend({
+    id: z.string().optional(),
+    goalId: z.string(),
+    assetId: z.string().optional(),
+    contributionDate: bundleDate,
+    createdAt: z.coerce.date().optional(),
+  }),
+};
+
+export interface BundleImportRecordResult {
+  entity: ExportEntity;
+  // Position of the record within its entity list in the bundle
+  index: number;
+  sourceId?: string;
+  // Id the record was (or would be) restored under
+  id?: string;
+  status: 'imported' | 'skipped' | 'invalid';
+  errors: string[];
+}
+
+export interface BundleImportResult {
+  committed: boolean;
+  mode: BundleImportRequest['mode'];
+  results: BundleImportRecordResult[];
+  counts: {
+    total: number;
+    imported: number;
+    skipped: number;
+    invalid: number;
+  };
+}
+
+// Hand-edited bundles often use null for missing values
+function withoutNulls(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== null));
+}
+
+export async function importBundle(storage: IStorage, userId: number, request: BundleImportRequest): Promise<BundleImportResult> {
+  const { bundle, mode } = request;
+  const results: BundleImportRecordResult[] = [];
+  const records: RestoreRecords = { incomes: [], expenses: [], assets: [], liabilities: [], goals: [], goalAssets: [], goalContributions: [] };
+  // New ids of the restored assets and goals by their id in the bundle
+  const restoredIds = { assets: new Map<string, string>(), goals: new Map<string, string>() };
+
+  // Recurring expense templates are not part of the bundle, so a link is only
+  // kept when the template still exists for this user
+  const recurringExpenseIds = new Set((await storage.getAllRecurringExpenses(userId)).map(re => re.id));
+
+  // Replacing clears existing rows, so only a merge can collide on external ids
+  const externalIds = [...bundle.incomes, ...bundle.expenses]
+    .map(record => record.externalId)
+    .filter((externalId): externalId is string => typeof externalId === 'string');
+  const existingExternalIds = mode === 'merge'
+    ? await storage.getExistingExternalIds(userId, externalIds)
+    : new Set<string>();
+
+  const now = new Date();
+
+  exportEntities.forEach(entity => {
+    // External ids are unique per table, so only the first record with each
+    // one is restored
+    const seenExternalIds = new Set<string>();
+    bundle[entity].forEach((raw, index) => {
+      const sourceId = typeof raw.id === 'string' ? raw.id : undefined;
+      const parsed = recordSchemas[entity].safeParse(withoutNulls(raw));
+
+      if (!parsed.success) {
+        results.push({
+          entity,
+          index,
+          sourceId,
+          status: 'invalid',
+          errors: parsed.error.errors.map(error => `${error.path.join('.')}: ${error.message}`),
+        });
+        return;
+      }
+
+      const externalId = 'externalId' in parsed.data ? parsed.data.externalId : undefined;
+      if (externalId && existingExternalIds.has(externalId)) {
+        results.push({ entity, index, sourceId, status: 'skipped', errors: ['A record with this external id already exists'] });
+        return;
+      }
+      if (externalId && seenExternalIds.has(externalId)) {
+        results.push({ entity, index, sourceId, status: 'skipped', errors: ['An earlier record in the bundle has the same external id'] });
+        return;
+      }
+      if (externalId) seenExternalIds.add(externalId);
+
+      // Links and contributions follow their goal, and links their asset;
+      // without them they are left out
+      if ('goalId' in parsed.data) {
+        const goalId = restoredIds.goals.get(parsed.data.goalId);
+        const assetId = parsed.data.assetId ? restoredIds.assets.get(parsed.data.assetId) : undefined;
+        const error = !goalId ? 'Its goal is not restored from the bundle'
+          : entity === 'goalAssets' && !assetId ? 'Its asset is not restored from the bundle'
+          : entity === 'goalAssets' && records.goalAssets.some(link => link.goalId === goalId && link.assetId === assetId)
+            ? 'An earlier record in the bundle links the same goal and asset'
+          : undefined;
+        if (error) {
+          results.push({ entity, index, sourceId, status: 'skipped', errors: [error] });
+          return;
+        }
+      }
+
+      const id = uuidv4();
+      if (sourceId && (entity === 'assets' || entity === 'goals')) {
+        restoredIds[entity].set(sourceId, id);
+      }
+      const base = { ...parsed.data, id, userId, createdAt: parsed.data.createdAt ?? now };
+      switch (entity) {
+        case 'incomes':
+          records.incomes.push(base as RestoreRecords['incomes'][number]);
+          break;
+        case 'expenses': {
+          const expense = base as RestoreRecords['expenses'][number];
+          if (expense.recurringExpenseId && !recurringExpenseIds.has(expense.recurringExpenseId)) {
+            expense.recurringExpenseId = undefined;
+          }
+          records.expenses.push(expense);
+          break;
+        }
+        case 'assets':
+          records.assets.push(base as RestoreRecords['assets'][number]);
+          break;
+        case 'liabilities':
+          records.liabilities.push(base as RestoreRecords['liabilities'][number]);
+          break;
+        case 'goals':
+          records.goals.push(base as RestoreRecords['goals'][number]);
+          break;
+        case 'goalAssets': {
+          const link = base as RestoreRecords['goalAssets'][number];
+          records.goalAssets.push({ ...link, goalId: restoredIds.goals.get(link.goalId)!, assetId: restoredIds.assets.get(link.assetId)! });
+          break;
+        }
+        case 'goalContributions': {
+          const contribution = base as RestoreRecords['goalContributions'][number];
+          records.goalContributions.push({
+            ...contribution,
+            goalId: restoredIds.goals.get(contribution.goalId)!,
+            // A contribution from an asset that is not restored keeps its amount
+            assetId: contribution.assetId ? restoredIds.assets.get(contribution.assetId) : undefined,
+          });
+          break;
+        }
+      }
+      results.push({ entity, index, sourceId, id, status: 'imported', errors: [] });
+    });
+  });
+
+  const invalid = results.filter(result => result.status === 'invalid').length;
+
+  // A restore is all or nothing: any invalid record blocks the commit
+  const committed = request.commit && invalid === 0;
+  if (committed) {
+    await storage.restoreRecords(userId, records, mode);
+  }
+
+  return {
+    committed,
+    mode,
+    results,
+    counts: {
+      total: results.length,
+      imported: committed ? results.filter(result => result.status === 'imported').length : 0,
+      skipped: results.filter(result => result.status === 'skipped').length,
+      invalid,
+    },
+  };
+}
@@ -0,0 +1,271 @@
+import { z } from 'zod';
+import { currencyCodeSchema, expenseSchema, incomeSchema, type Expense, type Income } from '@shared/schema';
+import type { IStorage } from './storage';
+import { parseCsv } from './csv';
+import { addDays, formatDate } from './dates';
+
+// A column is referenced by its header name or zero-based index
+const columnRefSchema = z.union([z.string().min(1), z.number().int().min(0)]);
+
+export const csvImportRequestSchema = z.object({
+  csv: z.string().min(1, { message: "CSV content is required" }),
+  delimiter: z.string().length(1).default(','),
+  hasHeader: z.boolean().default(true),
+  dateFormat: z.enum(['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY']).default('YYYY-MM-DD'),
+  // The other of the two may only group thousands: with '.' as the decimal
+  // separator 1,234.56 is read but 12,50 is rejected rather than guessed at
+  decimalSeparator: z.enum(['.', ',']).default('.'),
+  mapping: z.object({
+    date: columnRefSchema,
+    description: columnRefSchema,
+    amount: columnRefSchema.optional(),
+    debit: columnRefSchema.optional(),
+    credit: columnRefSchema.optional(),
+    category: columnRefSchema.optional(),
+    notes: columnRefSchema.optional(),
+    currency: columnRefSchema.optional(),
+  }),
+  // Currency of rows without a currency column or with it blank; the user's
+  // base currency when not given
+  currency: currencyCodeSchema.optional(),
+  // How a row's direction is told apart: by the sign of a single amount
+  // column, or by separate debit and credit columns
+  signConvention: z.enum(['negative-is-expense', 'positive-is-expense', 'debit-credit']).default('negative-is-expense'),
+  // Import every row as one kind regardless of sign, or split by direction
+  target: z.enum(['auto', 'expenses', 'incomes']).default('auto'),
+  defaultCategory: z.string().min(1).default('Uncategorized'),
+  skipDuplicates: z.boolean().default(true),
+  commit: z.boolean().default(false),
+}).refine(
+  request => request.signConvention === 'debit-credit'
+    ? request.mapping.debit !== undefined || request.mapping.credit !== undefined
+    : request.mapping.amount !== undefined,
+  { message: "Map an amount column, or debit/credit columns for the debit-credit convention", path: ['mapping'] }
+);
+
+export type CsvImportRequest = z.infer<typeof csvImportRequestSchema>;
+
+type NewExpense = Omit<Expense, "id" | "createdAt">;
+type NewIncome = Omit<Income, "id" | "createdAt">;
+
+export interface CsvImportRow {
+  // 1-based line number in the file, counting the header
+  row: number;
+  kind?: 'expense' | 'income';
+  data?: NewExpense | NewIncome;
+  errors: string[];
+  duplicate: boolean;
+}
+
+export interface CsvImportResult {
+  committed: boolean;
+  rows: CsvImportRow[];
+  counts: {
+    total: number;
+    valid: number;
+    invalid: number;
+    duplicates: number;
+    expenses: number;
+    incomes: number;
+    imported: number;
+  };
+}
+
+// Digits, optionally grouped in thousands by the separator that is not the
+// decimal one, then an optional fraction
+const AMOUNT_PATTERNS: Record<CsvImportRequest['decimalSeparator'], RegExp> = {
+  '.': /^(\d+|\d{1,3}(,\d{3})+)(\.\d+)?$|^\.\d+$/,
+  ',': /^(\d+|\d{1,3}(\.\d{3})+)(,\d+)?$|^,\d+$/,
+};
+
+export function parseAmount(value: string, decimalSeparator: CsvImportRequest['decimalSeparator'] = '.'): number | undefined {
+  let text = value.trim();
+  if (text === '') return undefined;
+
+  // Accounting style (12.34) means a negative amount
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  // Currency symbols, spaces and apostrophes go; both separators stay so a
+  // misplaced one is caught below instead of silently dropped
+  text = text.replace(/[^0-9.,\-]/g, '');
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+
+  if (!AMOUNT_PATTERNS[decimalSeparator].test(text)) return undefined;
+  const amount = parseFloat(decimalSeparator === '.' ? text.replace(/,/g, '') : text.replace(/\./g, '').replace(',', '.'));
+  return negative ? -amount : amount;
+}
+
+export function parseImportDate(value: string, format: CsvImportRequest['dateFormat']): Date | undefined {
+  const parts = value.trim().split(/[-/.]/).map(Number);
+  if (parts.length !== 3 || parts.some(part => !Number.isInteger(part))) return undefined;
+
+  const [year, month, day] = format === 'YYYY-MM-DD'
+    ? parts
+    : format === 'MM/DD/YYYY'
+      ? [parts[2], parts[0], parts[1]]
+      : [parts[2], parts[1], parts[0]];
+
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : undefined;
+}
+
+function duplicateKey(date: Date, amount: number, description: string): string {
+  return `${formatDate(date)}|${amount.toFixed(2)}|${description.trim().toLowerCase()}`;
+}
+
+// Parse and validate every row without writing anything
+export function previewCsvImport(request: CsvImportRequest, userId: number): CsvImportRow[] {
+  const records = parseCsv(request.csv, request.delimiter);
+  const header = request.hasHeader ? records.shift() ?? [] : [];
+  const offset = request.hasHeader ? 2 : 1;
+
+  const resolve = (ref: string | number | undefined): number | undefined => {
+    if (ref === undefined) return undefined;
+    if (typeof ref === 'number') return ref;
+    const index = header.findIndex(name => name.trim().toLowerCase() === ref.trim().toLowerCase());
+    return index === -1 ? undefined : index;
+  };
+
+  const columns = Object.fromEntries(
+    Object.entries(request.mapping).map(([key, ref]) => [key, resolve(ref)])
+  ) as Record<keyof CsvImportRequest['mapping'], number | undefined>;
+
+  const missing = Object.entries(request.mapping)
+    .filter(([key, ref]) => ref !== undefined && columns[key as keyof typeof columns] === undefined)
+    .map(([key, ref]) => `Column "${ref}" mapped to ${key} was not found`);
+
+  return records.map((fields, index) => {
+    const row: CsvImportRow = { row: index + offset, errors: [...missing], duplicate: false };
+    if (missing.length > 0) return row;
+
+    const field = (column: number | undefined) => column === undefined ? '' : (fields[column] ?? '').trim();
+
+    const date = parseImportDate(field(columns.date), request.dateFormat);
+    if (!date) row.errors.push(`Invalid date "${field(columns.date)}", expected ${request.dateFormat}`);
+
+    // Signed amount where negative means money going out
+    let signed: number | undefined;
+    if (request.signConvention === 'debit-credit') {
+      const debit = parseAmount(field(columns.debit), request.decimalSeparator);
+      const credit = parseAmount(field(columns.credit), request.decimalSeparator);
+      if (debit !== undefined && debit !== 0) signed = -Math.abs(debit);
+      else if (credit !== undefined) signed = Math.abs(credit);
+    } else {
+      const amount = parseAmount(field(columns.amount), request.decimalSeparator);
+      if (amount !== undefined) signed = request.signConvention === 'negative-is-expense' ? amount : -amount;
+    }
+    if (signed === undefined) row.errors.push('Missing or invalid amount');
+
+    if (!date || signed === undefined) return row;
+
+    const kind = request.target === 'expenses' ? 'expense'
+      : request.target === 'incomes' ? 'income'
+      : signed < 0 ? 'expense' : 'income';
+    row.kind = kind;
+
+    const description = field(columns.description);
+    const category = field(columns.category) || request.defaultCategory;
+    const notes = field(columns.notes) || undefined;
+    const currency = field(columns.currency).toUpperCase() || request.currency;
+
+    const parsed = kind === 'expense'
+      ? expenseSchema.omit({ id: true, createdAt: true }).safeParse({
+          userId,
+          category,
+          amount: Math.abs(signed),
+          currency,
+          description,
+          date,
+          notes,
+        })
+      : incomeSchema.omit({ id: true, createdAt: true }).safeParse({
+          userId,
+          source: description,
+          category,
+          amount: Math.abs(signed),
+          currency,
+          type: 'active',
+          frequency: 'one-time',
+          startDate: date,
+          notes,
+        });
+
+    if (!parsed.success) {
+      row.errors.push(...parsed.error.errors.map(error => `${error.path.join('.')}: ${error.message}`));
+    } else if (!description) {
+      row.errors.push('Description is required');
+    } else {
+      row.data = parsed.data;
+    }
+
+    return row;
+  });
+}
+
+// Flag rows matching an existing record, or an earlier row of the same file,
+// on date, amount and description
+export async function markDuplicates(storage: IStorage, userId: number, rows: CsvImportRow[]): Promise<void> {
+  const dated = rows.filter(row => row.data);
+  if (dated.length === 0) return;
+
+  const dates = dated.map(row => 'date' in row.data! ? row.data.date : (row.data as NewIncome).startDate);
+  const from = new Date(Math.min(...dates.map(date => date.getTime())));
+  const to = addDays(new Date(Math.max(...dates.map(date => date.getTime()))), 1);
+
+  const [existingExpenses, existingIncomes] = await Promise.all([
+    storage.getExpensesBetween(userId, from, to),
+    storage.getAllIncomes(userId),
+  ]);
+
+  const seen = new Set<string>([
+    ...existingExpenses.map(expense => `expense|${duplicateKey(new Date(expense.date), expense.amount, expense.description)}`),
+    ...existingIncomes
+      .filter(income => income.frequency === 'one-time')
+      .map(income => `income|${duplicateKey(income.startDate, income.amount, income.source)}`),
+  ]);
+
+  dated.forEach(row => {
+    const key = row.kind === 'expense'
+      ? `expense|${duplicateKey((row.data as NewExpense).date, row.data!.amount, (row.data as NewExpense).description)}`
+      : `income|${duplicateKey((row.data as NewIncome).startDate, row.data!.amount, (row.data as NewIncome).source)}`;
+    row.duplicate = seen.has(key);
+    seen.add(key);
+  });
+}
+
+export async function importCsv(storage: IStorage, userId: number, request: CsvImportRequest): Promise<CsvImportResult> {
+  const rows = previewCsvImport(request, userId);
+  await markDuplicates(storage, userId, rows);
+
+  const valid = rows.filter(row => row.data);
+  const invalid = rows.filter(row => row.errors.length > 0);
+  const toImport = valid.filter(row => !(request.skipDuplicates && row.duplicate));
+  const expenses = toImport.filter(row => row.kind === 'expense').map(row => row.data as NewExpense);
+  const incomes = toImport.filter(row => row.kind === 'income').map(row => row.data as NewIncome);
+
+  // Only commit a clean file, so a bad mapping never half-imports a statement
+  const committed = request.commit && invalid.length === 0;
+  if (committed) {
+    await storage.importRecords({ expenses, incomes });
+  }
+
+  return {
+    committed,
+    rows,
+    counts: {
+      total: rows.length,
+      valid: valid.length,
+      invalid: invalid.length,
+      duplicates: rows.filter(row => row.duplicate).length,
+      expenses: expenses.length,
+      incomes: incomes.length,
+      imported: committed ? expenses.length + incomes.length : 0,
+    },
+  };
+}
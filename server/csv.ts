@@ -0,0 +1,77 @@
+// Parse CSV text into rows of fields, following RFC 4180 quoting: fields
+// may be wrapped in double quotes, with "" standing for a literal quote and
+// embedded delimiters or line breaks allowed inside quotes
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Drop a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+function escapeCsvField(value: string, delimiter: string): string {
+  return /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Text a spreadsheet would run as a formula when opening the file
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Serialize rows to CSV with a header line; dates are written as ISO strings
+// and missing values as empty fields. Text that starts like a formula is
+// prefixed with an apostrophe so spreadsheets show it as text; numbers are
+// left alone so negative amounts stay numeric.
+export function stringifyCsv(columns: string[], rows: Record<string, unknown>[], delimiter = ','): string {
+  const format = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+    if (value instanceof Date) return value.toISOString();
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return typeof value === 'string' && FORMULA_PREFIX.test(text) ? `'${text}` : text;
+  };
+
+  const lines = [
+    columns.map(column => escapeCsvField(column, delimiter)).join(delimiter),
+    ...rows.map(row => columns.map(column => escapeCsvField(format(row[column]), delimiter)).join(delimiter)),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,215 @@
+import { z } from 'zod';
+import { exchangeRateSchema } from '@shared/schema';
+import type { ExchangeRate, Income, Expense, Asset, Liability, Goal } from '@shared/schema';
+import { DEFAULT_CURRENCY, roundMoney } from '@shared/money';
+import type { FinancialData } from './summary';
+import { formatDate, parseDateParam } from './dates';
+import { parseCsv } from './csv';
+
+export function formatMoney(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+}
+
+// The rate a record was converted with, reported alongside converted figures
+export interface AppliedRate {
+  currency: string;
+  // Units of the base currency per unit of `currency`
+  rate: number;
+  rateDate: string;
+}
+
+interface DatedRate {
+  date: Date;
+  rate: number;
+}
+
+// Converts amounts into a base currency using the user's own rate table.
+// Rates quoted either way round against the base currency are used; there
+// is no conversion through a third currency.
+export class CurrencyConverter {
+  // Rates into the base currency for each currency, oldest first
+  private readonly rates = new Map<string, DatedRate[]>();
+
+  constructor(readonly baseCurrency: string, exchangeRates: ExchangeRate[]) {
+    exchangeRates.forEach(exchangeRate => {
+      if (exchangeRate.quoteCurrency === baseCurrency) {
+        this.add(exchangeRate.currency, exchangeRate.rateDate, exchangeRate.rate);
+      } else if (exchangeRate.currency === baseCurrency) {
+        this.add(exchangeRate.quoteCurrency, exchangeRate.rateDate, 1 / exchangeRate.rate);
+      }
+    });
+    this.rates.forEach(rates => rates.sort((a, b) => a.date.getTime() - b.date.getTime()));
+  }
+
+  private add(currency: string, date: Date, rate: number) {
+    const rates = this.rates.get(currency) ?? [];
+    rates.push({ date, rate });
+    this.rates.set(currency, rates);
+  }
+
+  // Latest rate on or before `date`; amounts dated before the first known
+  // rate use that first rate
+  rateFor(currency: string, date: Date = new Date()): AppliedRate | undefined {
+    const rates = this.rates.get(currency);
+    if (!rates?.length) return undefined;
+
+    let chosen = rates[0];
+    for (const rate of rates) {
+      if (rate.date > date) break;
+      chosen = rate;
+    }
+    return { currency, rate: chosen.rate, rateDate: formatDate(chosen.date) };
+  }
+
+  // Rounded to the base currency; undefined when there is no rate for the
+  // currency
+  convert(amount: number, currency: string | undefined, date: Date = new Date()): number | undefined {
+    if (!currency || currency === this.baseCurrency) return amount;
+    const rate = this.rateFor(currency, date);
+    return rate ? roundMoney(amount * rate.rate, this.baseCurrency) : undefined;
+  }
+}
+
+// Set on records that were converted from another currency
+export type Converted<T> = T & { exchangeRate?: AppliedRate };
+
+export interface ConvertedFinancialData extends FinancialData {
+  currency: string;
+  incomes: Converted<Income>[];
+  expenses: Converted<Expense>[];
+  assets: Converted<Asset>[];
+  liabilities: Converted<Liability>[];
+  goals: Converted<Goal>[];
+  // Currencies without a rate to the base currency; their records are left
+  // out, so no total mixes currencies
+  missingCurrencies: string[];
+}
+
+// Copy of `record` with the numeric `fields` in the base currency at the
+// rate for `date`, rounded to the base currency. Without a rate it is
+// undefined and its currency is added to `missing`: callers leave such
+// records out of their totals rather than add foreign amounts to them.
+export function convertRecord<T extends { currency?: string }>(
+  record: T,
+  fields: (keyof T)[],
+  date: Date,
+  converter: CurrencyConverter,
+  missing: Set<string>
+): Converted<T> | undefined {
+  const currency = record.currency ?? converter.baseCurrency;
+  if (currency === converter.baseCurrency) return record;
+
+  const exchangeRate = converter.rateFor(currency, date);
+  if (!exchangeRate) {
+    missing.add(currency);
+    return undefined;
+  }
+
+  const converted: Converted<T> = { ...record, currency: converter.baseCurrency, exchangeRate };
+  fields.forEach(field => {
+    const value = record[field];
+    if (typeof value === 'number') {
+      (converted as Record<keyof T, unknown>)[field] = roundMoney(value * exchangeRate.rate, converter.baseCurrency);
+    }
+  });
+  return converted;
+}
+
+// Expenses and one-time incomes use the rate of their own date; balances,
+// goals and recurring incomes use the rate as of `asOf`. Records without a
+// rate are dropped and listed by currency in `missingCurrencies`.
+export function convertFinancialData(data: FinancialData, converter: CurrencyConverter, asOf: Date = new Date()): ConvertedFinancialData {
+  const missing = new Set<string>();
+  const incomes = data.incomes.flatMap(income =>
+    convertRecord(income, ['amount'], income.frequency === 'one-time' ? income.startDate : asOf, converter, missing) ?? []);
+  const expenses = data.expenses.flatMap(expense =>
+    convertRecord(expense, ['amount'], new Date(expense.date), converter, missing) ?? []);
+  const assets = data.assets.flatMap(asset =>
+    convertRecord(asset, ['value', 'incomeGenerated'], asOf, converter, missing) ?? []);
+  const liabilities = data.liabilities.flatMap(liability =>
+    convertRecord(liability, ['amount', 'minimumPayment'], asOf, converter, missing) ?? []);
+  const goals = data.goals.flatMap(goal =>
+    convertRecord(goal, ['targetAmount', 'currentAmount'], asOf, converter, missing) ?? []);
+
+  return {
+    currency: converter.baseCurrency,
+    incomes,
+    expenses,
+    assets,
+    liabilities,
+    goals,
+    missingCurrencies: Array.from(missing).sort(),
+  };
+}
+
+// Distinct rates used by a set of converted records
+export function appliedRates(records: Converted<object>[]): AppliedRate[] {
+  const rates = new Map<string, AppliedRate>();
+  records.forEach(record => {
+    if (record.exchangeRate) {
+      rates.set(`${record.exchangeRate.currency}|${record.exchangeRate.rateDate}`, record.exchangeRate);
+    }
+  });
+  return Array.from(rates.values())
+    .sort((a, b) => a.currency.localeCompare(b.currency) || a.rateDate.localeCompare(b.rateDate));
+}
+
+export const exchangeRateInputSchema = exchangeRateSchema.omit({ id: true, userId: true, source: true, createdAt: true });
+
+export const exchangeRateCsvImportSchema = z.object({
+  csv: z.string().min(1, { message: "CSV content is required" }),
+  delimiter: z.string().length(1).default(','),
+  hasHeader: z.boolean().default(true),
+  commit: z.boolean().default(true),
+});
+
+export type ExchangeRateCsvImport = z.infer<typeof exchangeRateCsvImportSchema>;
+
+export interface ExchangeRateCsvRow {
+  // 1-based line number in the file, counting the header
+  row: number;
+  data?: z.infer<typeof exchangeRateInputSchema>;
+  errors: string[];
+}
+
+const RATE_COLUMNS = ['date', 'currency', 'quote_currency', 'rate'] as const;
+
+// Rows of date (YYYY-MM-DD), currency, quote currency and rate. With a
+// header the columns are found by name, in any order; without one they are
+// expected in that order.
+export function parseExchangeRateCsv(request: ExchangeRateCsvImport): ExchangeRateCsvRow[] {
+  const records = parseCsv(request.csv, request.delimiter);
+  const header = request.hasHeader ? records.shift() ?? [] : undefined;
+  const normalized = header?.map(name => name.trim().toLowerCase().replace(/[\s-]+/g, '_').replace(/^quotecurrency$/, 'quote_currency'));
+  const indexes = RATE_COLUMNS.map((column, position) => normalized ? normalized.indexOf(column) : position);
+  const missing = RATE_COLUMNS.filter((_, position) => indexes[position] < 0).map(column => `Missing column "${column}"`);
+
+  return records
+    .map((record, index) => ({ record, line: index + (header ? 2 : 1) }))
+    .filter(({ record }) => record.some(field => field.trim() !== ''))
+    .map(({ record, line }) => {
+      const field = (position: number) => (indexes[position] >= 0 ? record[indexes[position]] ?? '' : '').trim();
+      const row: ExchangeRateCsvRow = { row: line, errors: [...missing] };
+      if (missing.length > 0) return row;
+
+      const rateDate = parseDateParam(field(0));
+      if (!rateDate) {
+        row.errors.push(`Invalid date "${field(0)}", expected YYYY-MM-DD`);
+        return row;
+      }
+      const parsed = exchangeRateInputSchema.safeParse({
+        rateDate,
+        currency: field(1).toUpperCase(),
+        quoteCurrency: field(2).toUpperCase(),
+        rate: Number(field(3)),
+      });
+      if (!parsed.success) {
+        row.errors.push(...parsed.error.errors.map(error => `${error.path.join('.')}: ${error.message}`));
+      } else if (parsed.data.currency === parsed.data.quoteCurrency) {
+        row.errors.push('Currency and quote currency must differ');
+      } else {
+        row.data = parsed.data;
+      }
+      return row;
+    });
+}
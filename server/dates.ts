@@ -0,0 +1,50 @@
+// Parse a YYYY-MM-DD query parameter as a local calendar date
+export function parseDateParam(value: unknown): Date | undefined {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 ? date : undefined;
+}
+
+// Parse an optional YYYY-MM-DD body field: undefined when it is left out or
+// empty, null when it is given but is not a valid date
+export function parseOptionalDateParam(value: unknown): Date | null | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  return parseDateParam(value) ?? null;
+}
+
+// Format a date as YYYY-MM-DD using its local calendar day, the format used
+// by `date` columns
+export function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+export function startOfMonth(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+export function endOfMonth(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth() + 1, 0);
+}
+
+// Read a `date` column value (YYYY-MM-DD) as a local calendar date
+export function parseDateColumn(value: string): Date {
+  return new Date(`${value}T00:00:00`);
+}
+
+// Parse a YYYY-MM month parameter as the first day of that month
+export function parseMonthParam(value: unknown): Date | undefined {
+  if (typeof value !== 'string' || !/^\d{4}-(0[1-9]|1[0-2])$/.test(value)) return undefined;
+  const [year, month] = value.split('-').map(Number);
+  return new Date(year, month - 1, 1);
+}
+
+export function formatMonth(date: Date): string {
+  return formatDate(date).slice(0, 7);
+}
@@ -0,0 +1,256 @@
+import { z } from 'zod';
+import { moneySchema, type Liability } from '@shared/schema';
+import { DEFAULT_CURRENCY, roundMoney, subtractMoney, sumMoney } from '@shared/money';
+import { formatMonth, parseMonthParam } from './dates';
+import { formatMoney } from './currency';
+
+export const debtPayoffRequestSchema = z.object({
+  monthlyBudget: moneySchema.positive({ message: "Monthly budget must be positive" }),
+  // Per-liability minimum payments, overriding what is stored on the liability
+  minimumPayments: z.record(moneySchema.min(0)).default({}),
+  // Liability ids to pay off first, in order, for the custom plan
+  customOrder: z.array(z.string()).optional(),
+  // Only plan for these liabilities; defaults to all of them
+  liabilityIds: z.array(z.string()).optional(),
+  // First month of payments, YYYY-MM; defaults to next month
+  startMonth: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, { message: "Start month must be YYYY-MM" }).optional(),
+  maxMonths: z.number().int().min(1).max(1200).default(600),
+});
+
+export type DebtPayoffRequest = z.infer<typeof debtPayoffRequestSchema>;
+
+export const debtPayoffStrategies = ['avalanche', 'snowball', 'custom'] as const;
+export type DebtPayoffStrategy = typeof debtPayoffStrategies[number];
+
+export interface PlannedDebt {
+  liabilityId: string;
+  description: string;
+  balance: number;
+  interestRate: number;
+  minimumPayment: number;
+  // No minimum payment was known, so a typical card minimum was assumed
+  minimumPaymentEstimated: boolean;
+}
+
+export interface DebtPayment {
+  liabilityId: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number;
+}
+
+export interface DebtPayoffMonth {
+  month: string;
+  payments: DebtPayment[];
+  totalPaid: number;
+  totalInterest: number;
+  remainingBalance: number;
+}
+
+export interface DebtPayoffPlan {
+  strategy: DebtPayoffStrategy;
+  // Liability ids in the order extra money goes to them
+  order: string[];
+  months: number;
+  // Month the last debt is paid off, or null if it is not within maxMonths
+  debtFreeMonth: string | null;
+  totalInterest: number;
+  totalPaid: number;
+  payoffMonths: Record<string, string | null>;
+  schedule: DebtPayoffMonth[];
+}
+
+export interface DebtPayoffResult {
+  // Amounts are rounded to the minor units of this currency each month
+  currency: string;
+  monthlyBudget: number;
+  totalMinimumPayment: number;
+  debts: PlannedDebt[];
+  plans: DebtPayoffPlan[];
+  // Plan paying the least interest
+  recommended: DebtPayoffStrategy | null;
+}
+
+export class DebtPayoffBudgetError extends Error {
+  constructor(public readonly totalMinimumPayment: number, public readonly monthlyBudget: number, public readonly currency: string) {
+    super(`Monthly budget of ${formatMoney(monthlyBudget, currency)} does not cover the minimum payments of ${formatMoney(totalMinimumPayment, currency)}`);
+    this.name = 'DebtPayoffBudgetError';
+  }
+}
+
+function monthlyRate(interestRate: number): number {
+  return interestRate / 100 / 12;
+}
+
+// Typical credit card rule: the month's interest plus 1% of the balance,
+// at least 25, never more than the balance
+export function estimateMinimumPayment(balance: number, interestRate: number, currency?: string): number {
+  const estimate = Math.max(25, balance * monthlyRate(interestRate) + balance * 0.01);
+  return roundMoney(Math.min(balance, estimate), currency);
+}
+
+export function toPlannedDebts(liabilities: Liability[], overrides: Record<string, number> = {}, currency?: string): PlannedDebt[] {
+  return liabilities
+    .filter(liability => liability.amount > 0)
+    .map(liability => {
+      const known = overrides[liability.id] ?? liability.minimumPayment;
+      return {
+        liabilityId: liability.id,
+        description: liability.description,
+        balance: liability.amount,
+        interestRate: liability.interestRate,
+        minimumPayment: known ?? estimateMinimumPayment(liability.amount, liability.interestRate, currency),
+        minimumPaymentEstimated: known === undefined,
+      };
+    });
+}
+
+export function orderDebts(debts: PlannedDebt[], strategy: DebtPayoffStrategy, customOrder: string[] = []): string[] {
+  // Highest rate first; ties go to the smaller balance
+  const avalanche = [...debts].sort((a, b) => b.interestRate - a.interestRate || a.balance - b.balance);
+
+  switch (strategy) {
+    case 'avalanche':
+      return avalanche.map(debt => debt.liabilityId);
+    case 'snowball':
+      // Smallest balance first; ties go to the higher rate
+      return [...debts]
+        .sort((a, b) => a.balance - b.balance || b.interestRate - a.interestRate)
+        .map(debt => debt.liabilityId);
+    case 'custom': {
+      // Listed debts first, the rest by avalanche
+      const ids = new Set(debts.map(debt => debt.liabilityId));
+      const listed = customOrder.filter((id, index) => ids.has(id) && customOrder.indexOf(id) === index);
+      return [...listed, ...avalanche.map(debt => debt.liabilityId).filter(id => !listed.includes(id))];
+    }
+  }
+}
+
+// Simulate paying `monthlyBudget` every month: interest accrues, every debt
+// gets its minimum, and whatever is left goes to debts in `order`. Money
+// freed up by a paid-off debt rolls on to the next one.
+export function simulatePayoff(
+  debts: PlannedDebt[],
+  order: string[],
+  monthlyBudget: number,
+  startMonth: Date,
+  maxMonths: number,
+  currency?: string
+): Omit<DebtPayoffPlan, 'strategy'> {
+  const balances = new Map(debts.map(debt => [debt.liabilityId, debt.balance]));
+  const payoffMonths: Record<string, string | null> = Object.fromEntries(debts.map(debt => [debt.liabilityId, null]));
+  const schedule: DebtPayoffMonth[] = [];
+  let totalInterest = 0;
+  let totalPaid = 0;
+
+  const remaining = () => sumMoney(Array.from(balances.values()), currency);
+
+  for (let index = 0; index < maxMonths && remaining() > 0; index++) {
+    const month = formatMonth(new Date(startMonth.getFullYear(), startMonth.getMonth() + index, 1));
+    const payments = new Map<string, DebtPayment>();
+
+    debts.forEach(debt => {
+      const balance = balances.get(debt.liabilityId)!;
+      if (balance <= 0) return;
+      const interest = roundMoney(balance * monthlyRate(debt.interestRate), currency);
+      balances.set(debt.liabilityId, sumMoney([balance, interest], currency));
+      payments.set(debt.liabilityId, { liabilityId: debt.liabilityId, payment: 0, interest, principal: 0, balance: 0 });
+    });
+
+    const pay = (liabilityId: string, amount: number): number => {
+      const balance = balances.get(liabilityId)!;
+      const paid = roundMoney(Math.min(balance, amount), currency);
+      if (paid <= 0) return 0;
+      balances.set(liabilityId, subtractMoney(balance, paid, currency));
+      payments.get(liabilityId)!.payment = sumMoney([payments.get(liabilityId)!.payment, paid], currency);
+      return paid;
+    };
+
+    let available = monthlyBudget;
+    debts.forEach(debt => {
+      if (payments.has(debt.liabilityId)) {
+        available = subtractMoney(available, pay(debt.liabilityId, Math.min(debt.minimumPayment, available)), currency);
+      }
+    });
+    for (const liabilityId of order) {
+      if (available <= 0) break;
+      if (payments.has(liabilityId)) {
+        available = subtractMoney(available, pay(liabilityId, available), currency);
+      }
+    }
+
+    const monthPayments = Array.from(payments.values()).map(payment => {
+      const balance = balances.get(payment.liabilityId)!;
+      if (balance <= 0) payoffMonths[payment.liabilityId] = month;
+      return {
+        ...payment,
+        principal: subtractMoney(payment.payment, payment.interest, currency),
+        balance,
+      };
+    });
+    const monthPaid = sumMoney(monthPayments.map(payment => payment.payment), currency);
+    const monthInterest = sumMoney(monthPayments.map(payment => payment.interest), currency);
+    totalPaid = sumMoney([totalPaid, monthPaid], currency);
+    totalInterest = sumMoney([totalInterest, monthInterest], currency);
+
+    schedule.push({
+      month,
+      payments: monthPayments,
+      totalPaid: monthPaid,
+      totalInterest: monthInterest,
+      remainingBalance: remaining(),
+    });
+  }
+
+  const debtFree = remaining() <= 0;
+  return {
+    order,
+    months: schedule.length,
+    debtFreeMonth: debtFree ? schedule[schedule.length - 1]?.month ?? null : null,
+    totalInterest,
+    totalPaid,
+    payoffMonths,
+    schedule,
+  };
+}
+
+export function planDebtPayoff(
+  liabilities: Liability[],
+  request: DebtPayoffRequest,
+  currency: string = DEFAULT_CURRENCY,
+  now: Date = new Date()
+): DebtPayoffResult {
+  const selected = request.liabilityIds
+    ? liabilities.filter(liability => request.liabilityIds!.includes(liability.id))
+    : liabilities;
+  const debts = toPlannedDebts(selected, request.minimumPayments, currency);
+
+  const totalMinimumPayment = sumMoney(debts.map(debt => debt.minimumPayment), currency);
+  if (totalMinimumPayment > request.monthlyBudget) {
+    throw new DebtPayoffBudgetError(totalMinimumPayment, request.monthlyBudget, currency);
+  }
+
+  const startMonth = (request.startMonth ? parseMonthParam(request.startMonth) : undefined)
+    ?? new Date(now.getFullYear(), now.getMonth() + 1, 1);
+  const strategies = debtPayoffStrategies.filter(strategy => strategy !== 'custom' || request.customOrder?.length);
+
+  const plans = strategies.map(strategy => ({
+    strategy,
+    ...simulatePayoff(debts, orderDebts(debts, strategy, request.customOrder), request.monthlyBudget, startMonth, request.maxMonths, currency),
+  }));
+
+  const finished = plans.filter(plan => plan.debtFreeMonth !== null);
+  const recommended = finished.length > 0
+    ? finished.reduce((best, plan) => plan.totalInterest < best.totalInterest ? plan : best).strategy
+    : null;
+
+  return {
+    currency,
+    monthlyBudget: request.monthlyBudget,
+    totalMinimumPayment,
+    debts,
+    plans,
+    recommended,
+  };
+}
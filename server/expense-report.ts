@@ -0,0 +1,239 @@
+import { z } from 'zod';
+import { roundMoney, subtractMoney, sumMoney } from '@shared/money';
+import type { IStorage, ExpenseTotal } from './storage';
+import { CurrencyConverter, convertRecord, appliedRates, type AppliedRate, type Converted } from './currency';
+import { addDays, endOfMonth, formatDate, formatMonth, parseDateColumn, startOfMonth } from './dates';
+import { dateParam } from './list-queries';
+
+export const expenseReportGroupings = ['month', 'week', 'category'] as const;
+export type ExpenseReportGrouping = typeof expenseReportGroupings[number];
+
+// Months before each month whose mean spending it is compared with
+export const TRAILING_MONTHS = 6;
+// Months in each rolling average, counting the month itself
+export const ROLLING_MONTHS = 3;
+
+export const expenseReportQuerySchema = z.object({
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+  groupBy: z.enum(expenseReportGroupings).default('month'),
+  // Percent above its trailing mean at which a category's month is flagged
+  threshold: z.coerce.number().positive().max(10000).default(50),
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: "from must not be after to",
+  path: ['from'],
+});
+
+export type ExpenseReportQuery = z.infer<typeof expenseReportQuerySchema>;
+
+export interface ExpenseGroup {
+  // YYYY-MM, the Monday of the week as YYYY-MM-DD, or the category
+  key: string;
+  total: number;
+  count: number;
+  // Percent of all spending in the range
+  share: number;
+}
+
+export interface CategoryMonth {
+  category: string;
+  total: number;
+  count: number;
+  // Change from the month before; the percentage is null when nothing was
+  // spent in the category that month
+  change: number;
+  changePercent: number | null;
+  rollingAverage: number;
+  trailingMean: number;
+  anomaly: boolean;
+}
+
+export interface ExpenseReportMonth {
+  month: string;
+  total: number;
+  categories: CategoryMonth[];
+}
+
+export interface ExpenseAnomaly {
+  month: string;
+  category: string;
+  total: number;
+  trailingMean: number;
+  // How far above the trailing mean the month was, in percent
+  excessPercent: number;
+}
+
+export interface ExpenseReport {
+  from: string;
+  to: string;
+  groupBy: ExpenseReportGrouping;
+  threshold: number;
+  // Every amount is in the user's base currency
+  currency: string;
+  total: number;
+  count: number;
+  groups: ExpenseGroup[];
+  // Whole calendar months overlapping the range, with per-category trends
+  months: ExpenseReportMonth[];
+  anomalies: ExpenseAnomaly[];
+  exchangeRates: AppliedRate[];
+  // Currencies without a rate, whose totals are left out
+  missingCurrencies: string[];
+}
+
+function shiftMonth(date: Date, months: number): Date {
+  return new Date(date.getFullYear(), date.getMonth() + months, 1);
+}
+
+// Rounded to one decimal place
+export function percent(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Converts each total at the rate for `rateDate`, then merges totals that
+// only differed by currency. Totals without a rate are dropped.
+function mergeInBaseCurrency(
+  totals: ExpenseTotal[],
+  converter: CurrencyConverter,
+  rateDate: (total: ExpenseTotal) => Date,
+  missing: Set<string>,
+  converted: Converted<ExpenseTotal>[]
+): ExpenseTotal[] {
+  const merged = new Map<string, ExpenseTotal>();
+  totals.forEach(total => {
+    const inBase = convertRecord(total, ['total'], rateDate(total), converter, missing);
+    if (!inBase) return;
+    converted.push(inBase);
+    const key = `${total.periodStart ?? ''}|${total.category}`;
+    const existing = merged.get(key);
+    merged.set(key, existing
+      ? { ...existing, total: sumMoney([existing.total, inBase.total], converter.baseCurrency), count: existing.count + inBase.count }
+      : { ...inBase, currency: converter.baseCurrency });
+  });
+  return Array.from(merged.values());
+}
+
+// Month by month spending per category, with the change from the month
+// before, a rolling average and a flag when the month is more than
+// `threshold` percent above the mean of the TRAILING_MONTHS before it
+export function buildExpenseTrends(
+  monthlyTotals: ExpenseTotal[],
+  firstMonth: Date,
+  lastMonth: Date,
+  threshold: number,
+  currency: string
+): { months: ExpenseReportMonth[]; anomalies: ExpenseAnomaly[] } {
+  const byCategory = new Map<string, Map<string, ExpenseTotal>>();
+  monthlyTotals.forEach(total => {
+    const months = byCategory.get(total.category) ?? new Map<string, ExpenseTotal>();
+    months.set(total.periodStart!.slice(0, 7), total);
+    byCategory.set(total.category, months);
+  });
+  const spentIn = (category: string, month: Date) => byCategory.get(category)?.get(formatMonth(month))?.total ?? 0;
+  const meanOver = (category: string, month: Date, from: number, count: number) =>
+    roundMoney(sumMoney(Array.from({ length: count }, (_, index) => spentIn(category, shiftMonth(month, from - index))), currency) / count, currency);
+
+  const months: ExpenseReportMonth[] = [];
+  const anomalies: ExpenseAnomaly[] = [];
+  for (let month = firstMonth; month <= lastMonth; month = shiftMonth(month, 1)) {
+    const monthKey = formatMonth(month);
+    const previousMonth = shiftMonth(month, -1);
+
+    const categories = Array.from(byCategory.keys())
+      .filter(category => spentIn(category, month) !== 0 || spentIn(category, previousMonth) !== 0)
+      .map(category => {
+        const total = spentIn(category, month);
+        const previous = spentIn(category, previousMonth);
+        const trailingMean = meanOver(category, month, -1, TRAILING_MONTHS);
+        const anomaly = trailingMean > 0 && total > trailingMean * (1 + threshold / 100);
+        if (anomaly) {
+          anomalies.push({
+            month: monthKey,
+            category,
+            total,
+            trailingMean,
+            excessPercent: percent((total / trailingMean - 1) * 100),
+          });
+        }
+        return {
+          category,
+          total,
+          count: byCategory.get(category)?.get(monthKey)?.count ?? 0,
+          change: subtractMoney(total, previous, currency),
+          changePercent: previous > 0 ? percent((total / previous - 1) * 100) : null,
+          rollingAverage: meanOver(category, month, 0, ROLLING_MONTHS),
+          trailingMean,
+          anomaly,
+        };
+      })
+      .sort((a, b) => b.total - a.total || a.category.localeCompare(b.category));
+
+    months.push({ month: monthKey, total: sumMoney(categories.map(category => category.total), currency), categories });
+  }
+  return { months, anomalies };
+}
+
+export async function getExpenseReport(storage: IStorage, userId: number, query: ExpenseReportQuery): Promise<ExpenseReport> {
+  const today = new Date();
+  const to = query.to ?? new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const from = query.from ?? shiftMonth(to, -11);
+  const firstMonth = startOfMonth(from);
+  const lastMonth = startOfMonth(to);
+
+  const [groupTotals, monthlyTotals, baseCurrency, rates] = await Promise.all([
+    query.groupBy === 'category'
+      ? storage.getExpenseTotals(userId, from, addDays(to, 1))
+      : storage.getExpenseTotals(userId, from, addDays(to, 1), query.groupBy),
+    storage.getExpenseTotals(userId, shiftMonth(firstMonth, -TRAILING_MONTHS), addDays(endOfMonth(to), 1), 'month'),
+    storage.getBaseCurrency(userId),
+    storage.getExchangeRates(userId),
+  ]);
+
+  // A period's totals are converted at the rate of its last day, or of the
+  // end of the range when grouping by category
+  const converter = new CurrencyConverter(baseCurrency, rates);
+  const missing = new Set<string>();
+  const converted: Converted<ExpenseTotal>[] = [];
+  const periodEnd = (total: ExpenseTotal): Date => {
+    if (!total.periodStart) return to;
+    const start = parseDateColumn(total.periodStart);
+    return query.groupBy === 'week' ? addDays(start, 6) : endOfMonth(start);
+  };
+  const groupsInBase = mergeInBaseCurrency(groupTotals, converter, total => (periodEnd(total) < to ? periodEnd(total) : to), missing, converted);
+  const monthlyInBase = mergeInBaseCurrency(monthlyTotals, converter, total => endOfMonth(parseDateColumn(total.periodStart!)), missing, converted);
+
+  const groupsByKey = new Map<string, { total: number; count: number }>();
+  groupsInBase.forEach(total => {
+    const key = query.groupBy === 'category' ? total.category
+      : query.groupBy === 'month' ? total.periodStart!.slice(0, 7)
+      : total.periodStart!;
+    const existing = groupsByKey.get(key);
+    groupsByKey.set(key, {
+      total: sumMoney([existing?.total ?? 0, total.total], baseCurrency),
+      count: (existing?.count ?? 0) + total.count,
+    });
+  });
+  const total = sumMoney(Array.from(groupsByKey.values()).map(group => group.total), baseCurrency);
+  const groups = Array.from(groupsByKey, ([key, group]) => ({
+    key,
+    ...group,
+    share: total > 0 ? percent((group.total / total) * 100) : 0,
+  }));
+  groups.sort(query.groupBy === 'category'
+    ? (a, b) => b.total - a.total || a.key.localeCompare(b.key)
+    : (a, b) => a.key.localeCompare(b.key));
+
+  return {
+    from: formatDate(from),
+    to: formatDate(to),
+    groupBy: query.groupBy,
+    threshold: query.threshold,
+    currency: baseCurrency,
+    total,
+    count: groups.reduce((sum, group) => sum + group.count, 0),
+    groups,
+    ...buildExpenseTrends(monthlyInBase, firstMonth, lastMonth, query.threshold, baseCurrency),
+    exchangeRates: appliedRates(converted),
+    missingCurrencies: Array.from(missing).sort(),
+  };
+}
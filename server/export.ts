@@ -0,0 +1,117 @@
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { incomeSchema, expenseSchema, assetSchema, liabilitySchema, goalSchema, goalAssetSchema, goalContributionSchema } from '@shared/schema';
+import type { IStorage } from './storage';
+import { loadFinancialData } from './summary';
+import { stringifyCsv } from './csv';
+
+// Bump when the bundle layout changes so restores can tell versions apart.
+// Version 2 added goal asset links and goal contributions.
+export const EXPORT_MANIFEST_VERSION = 2;
+
+export const exportFormats = ['json', 'csv', 'xlsx'] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+// Goal links and contributions come after the goals and assets they refer to
+export const exportEntities = ['incomes', 'expenses', 'assets', 'liabilities', 'goals', 'goalAssets', 'goalContributions'] as const;
+export type ExportEntity = typeof exportEntities[number];
+
+export interface ExportManifest {
+  version: number;
+  exportedAt: string;
+  user: { id: number; username: string };
+  counts: Record<ExportEntity, number>;
+}
+
+export type ExportBundle = {
+  manifest: ExportManifest;
+} & Record<ExportEntity, Record<string, unknown>[]>;
+
+// Columns follow the zod schemas so new fields are exported automatically;
+// the owning user is implied by the bundle
+const ENTITY_COLUMNS: Record<ExportEntity, string[]> = {
+  incomes: Object.keys(incomeSchema.shape).filter(key => key !== 'userId'),
+  expenses: Object.keys(expenseSchema.shape).filter(key => key !== 'userId'),
+  assets: Object.keys(assetSchema.shape).filter(key => key !== 'userId'),
+  liabilities: Object.keys(liabilitySchema.shape).filter(key => key !== 'userId'),
+  goals: Object.keys(goalSchema.shape).filter(key => key !== 'userId'),
+  goalAssets: Object.keys(goalAssetSchema.shape).filter(key => key !== 'userId'),
+  goalContributions: Object.keys(goalContributionSchema.shape).filter(key => key !== 'userId'),
+};
+
+function withoutUserId<T extends { userId: number }>(records: T[]): Record<string, unknown>[] {
+  return records.map(({ userId, ...record }) => record);
+}
+
+export async function buildExportBundle(storage: IStorage, userId: number): Promise<ExportBundle> {
+  const [user, data, goalAssets, goalContributions] = await Promise.all([
+    storage.getUser(userId),
+    loadFinancialData(storage, userId),
+    storage.getAllGoalAssets(userId),
+    storage.getAllGoalContributions(userId),
+  ]);
+
+  return {
+    manifest: {
+      version: EXPORT_MANIFEST_VERSION,
+      exportedAt: new Date().toISOString(),
+      user: { id: userId, username: user?.username ?? '' },
+      counts: {
+        incomes: data.incomes.length,
+        expenses: data.expenses.length,
+        assets: data.assets.length,
+        liabilities: data.liabilities.length,
+        goals: data.goals.length,
+        goalAssets: goalAssets.length,
+        goalContributions: goalContributions.length,
+      },
+    },
+    incomes: withoutUserId(data.incomes),
+    expenses: withoutUserId(data.expenses),
+    assets: withoutUserId(data.assets),
+    liabilities: withoutUserId(data.liabilities),
+    goals: withoutUserId(data.goals),
+    goalAssets: withoutUserId(goalAssets),
+    goalContributions: withoutUserId(goalContributions),
+  };
+}
+
+// One CSV file per entity plus the manifest, zipped together
+export async function exportCsvZip(bundle: ExportBundle): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('manifest.json', JSON.stringify(bundle.manifest, null, 2));
+  exportEntities.forEach(entity => {
+    zip.file(`${entity}.csv`, stringifyCsv(ENTITY_COLUMNS[entity], bundle[entity]));
+  });
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+// One worksheet per entity plus a manifest sheet
+export async function exportXlsx(bundle: ExportBundle): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date(bundle.manifest.exportedAt);
+
+  const manifestSheet = workbook.addWorksheet('manifest');
+  manifestSheet.columns = [
+    { header: 'key', key: 'key', width: 20 },
+    { header: 'value', key: 'value', width: 30 },
+  ];
+  manifestSheet.addRows([
+    { key: 'version', value: bundle.manifest.version },
+    { key: 'exportedAt', value: bundle.manifest.exportedAt },
+    { key: 'username', value: bundle.manifest.user.username },
+    ...exportEntities.map(entity => ({ key: `${entity}Count`, value: bundle.manifest.counts[entity] })),
+  ]);
+
+  exportEntities.forEach(entity => {
+    const sheet = workbook.addWorksheet(entity);
+    sheet.columns = ENTITY_COLUMNS[entity].map(column => ({ header: column, key: column, width: 18 }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.addRows(bundle[entity].map(record => Object.fromEntries(
+      Object.entries(record).map(([key, value]) => [key, value ?? null])
+    )));
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+}
@@ -0,0 +1,189 @@
+import { calculateFinancialSummary, monthsInWindow, toMonthlyAmount } from './summary';
+import { estimateTokens } from './llm';
+import { formatDate, formatMonth } from './dates';
+import { formatMoney, type ConvertedFinancialData } from './currency';
+import { subtractMoney, sumMoney } from '@shared/money';
+
+// Builds the plain-text description of a user's finances that is sent to the
+// model. Every section is ordered most important first, and when the whole
+// picture does not fit the token budget the least important lines of each
+// section are dropped and counted instead.
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = Number(process.env.AI_CONTEXT_TOKEN_BUDGET) || 1500;
+
+// Months of spending that are averaged for the overview metrics
+const METRIC_MONTHS = 3;
+// Lines every section gets before any section gets more
+const MIN_LINES_PER_SECTION = 5;
+
+export interface FinancialContextOptions {
+  tokenBudget?: number;
+  now?: Date;
+}
+
+interface ContextSection {
+  title: string;
+  lines: string[];
+}
+
+function percent(ratio: number): string {
+  return `${(ratio * 100).toFixed(1)}%`;
+}
+
+function overviewSection(data: ConvertedFinancialData, now: Date): ContextSection {
+  // The last few whole months plus the current one
+  const window = {
+    from: new Date(now.getFullYear(), now.getMonth() - METRIC_MONTHS + 1, 1),
+    to: new Date(now.getFullYear(), now.getMonth() + 1, 1),
+  };
+  const months = Math.max(1, monthsInWindow(window));
+  const summary = calculateFinancialSummary(data, window);
+
+  const monthlyIncome = summary.totalIncome / months;
+  const monthlyExpenses = summary.totalExpenses / months;
+  const savingsRate = summary.totalIncome > 0 ? summary.cashFlow / summary.totalIncome : undefined;
+  const debtToAsset = summary.totalAssets > 0 ? summary.totalLiabilities / summary.totalAssets : undefined;
+  const assetIncome = sumMoney(data.assets.map(asset => asset.incomeGenerated), data.currency);
+  const money = (amount: number) => formatMoney(amount, data.currency);
+  const weightedRate = summary.totalLiabilities > 0
+    ? data.liabilities.reduce((sum, liability) => sum + liability.amount * liability.interestRate, 0) / summary.totalLiabilities
+    : undefined;
+
+  return {
+    title: 'OVERVIEW',
+    lines: [
+      `- Date: ${formatDate(now)}`,
+      `- All amounts in ${data.currency}${data.missingCurrencies.length > 0 ? `, except records in ${data.missingCurrencies.join(', ')} (no exchange rate)` : ''}`,
+      `- Net worth: ${money(summary.netWorth)} (assets ${money(summary.totalAssets)}, liabilities ${money(summary.totalLiabilities)})`,
+      `- Average monthly income over the last ${months} months: ${money(monthlyIncome)} (passive ${money(summary.passiveIncome / months)})`,
+      `- Average monthly expenses over the last ${months} months: ${money(monthlyExpenses)}`,
+      `- Savings rate: ${savingsRate === undefined ? 'n/a (no income)' : percent(savingsRate)}`,
+      `- Debt-to-asset ratio: ${debtToAsset === undefined ? 'n/a (no assets)' : percent(debtToAsset)}`,
+      ...(weightedRate !== undefined ? [`- Average interest rate on debt: ${weightedRate.toFixed(2)}%`] : []),
+      ...(assetIncome > 0 ? [`- Income generated by assets: ${money(assetIncome)}`] : []),
+    ],
+  };
+}
+
+function incomeSection(data: ConvertedFinancialData): ContextSection {
+  const lines = [...data.incomes]
+    .sort((a, b) => toMonthlyAmount(b.amount, b.frequency) - toMonthlyAmount(a.amount, a.frequency) || b.amount - a.amount)
+    .map(income => {
+      const period = income.frequency === 'one-time'
+        ? `one-time on ${formatDate(income.startDate)}`
+        : `${income.frequency} since ${formatDate(income.startDate)}${income.endDate ? ` until ${formatDate(income.endDate)}` : ''}`;
+      return `- ${income.source} (${income.category}, ${income.type}): ${formatMoney(income.amount, income.currency)} ${period}`;
+    });
+  return { title: 'INCOMES', lines };
+}
+
+function assetSection(data: ConvertedFinancialData): ContextSection {
+  const lines = [...data.assets]
+    .sort((a, b) => b.value - a.value)
+    .map(asset => `- ${asset.name} (${asset.category}): ${formatMoney(asset.value, asset.currency)}${asset.incomeGenerated > 0 ? `, generates ${formatMoney(asset.incomeGenerated, asset.currency)}` : ''}`);
+  return { title: 'ASSETS', lines };
+}
+
+function liabilitySection(data: ConvertedFinancialData): ContextSection {
+  // Costliest debt first
+  const lines = [...data.liabilities]
+    .sort((a, b) => b.interestRate - a.interestRate || b.amount - a.amount)
+    .map(liability => `- ${liability.description} (${liability.type}): ${formatMoney(liability.amount, liability.currency)} at ${liability.interestRate}% interest`);
+  return { title: 'LIABILITIES', lines };
+}
+
+function goalSection(data: ConvertedFinancialData, now: Date): ContextSection {
+  const lines = [...data.goals]
+    .sort((a, b) => new Date(a.targetDate).getTime() - new Date(b.targetDate).getTime())
+    .map(goal => {
+      const money = (amount: number) => formatMoney(amount, goal.currency);
+      const remaining = Math.max(0, subtractMoney(goal.targetAmount, goal.currentAmount, goal.currency));
+      const progress = goal.targetAmount > 0 ? goal.currentAmount / goal.targetAmount : 1;
+      const targetDate = new Date(goal.targetDate);
+      const monthsLeft = (targetDate.getFullYear() - now.getFullYear()) * 12 + targetDate.getMonth() - now.getMonth();
+      const pace = remaining === 0
+        ? 'reached'
+        : monthsLeft > 0 ? `needs ${money(remaining / monthsLeft)}/month` : 'past its target date';
+      return `- ${goal.description}: ${money(goal.currentAmount)} of ${money(goal.targetAmount)} (${percent(progress)}) by ${formatDate(targetDate)}, ${pace}`;
+    });
+  return { title: 'GOALS', lines };
+}
+
+// One line per month, newest first, with the categories largest first
+function monthlySpendingSection(data: ConvertedFinancialData): ContextSection {
+  const money = (amount: number) => formatMoney(amount, data.currency);
+  const months = new Map<string, Map<string, number>>();
+  data.expenses.forEach(expense => {
+    const month = formatMonth(new Date(expense.date));
+    const categories = months.get(month) ?? new Map<string, number>();
+    categories.set(expense.category, sumMoney([categories.get(expense.category) ?? 0, expense.amount], data.currency));
+    months.set(month, categories);
+  });
+
+  const lines = Array.from(months.entries())
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([month, categories]) => {
+      const sorted = Array.from(categories.entries()).sort(([, a], [, b]) => b - a);
+      const total = sumMoney(sorted.map(([, amount]) => amount), data.currency);
+      return `- ${month}: ${money(total)} (${sorted.map(([category, amount]) => `${category} ${money(amount)}`).join(', ')})`;
+    });
+  return { title: 'EXPENSES BY MONTH', lines };
+}
+
+function recentExpenseSection(data: ConvertedFinancialData): ContextSection {
+  const lines = [...data.expenses]
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .map(expense => `- ${formatDate(new Date(expense.date))} ${expense.category}: ${formatMoney(expense.amount, expense.currency)} ${expense.description}`);
+  return { title: 'RECENT EXPENSES', lines };
+}
+
+function renderSection(section: ContextSection, kept: number): string[] {
+  const omitted = section.lines.length - kept;
+  return [
+    `${section.title}:`,
+    ...section.lines.slice(0, kept),
+    ...(omitted > 0 ? [`- (${omitted} more not shown)`] : []),
+  ];
+}
+
+export function buildFinancialContext(data: ConvertedFinancialData, options: FinancialContextOptions = {}): string {
+  const budget = options.tokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET;
+  const now = options.now ?? new Date();
+
+  const overview = overviewSection(data, now);
+  // Ordered by how much they matter for advice
+  const sections = [
+    liabilitySection(data),
+    goalSection(data, now),
+    incomeSection(data),
+    monthlySpendingSection(data),
+    assetSection(data),
+    recentExpenseSection(data),
+  ].filter(section => section.lines.length > 0);
+
+  // Headers and "more not shown" notes are reserved up front so kept lines
+  // can be added without re-rendering
+  let used = estimateTokens(renderSection(overview, overview.lines.length).join('\n'))
+    + sections.reduce((sum, section) => sum + estimateTokens(`${section.title}:\n- (${section.lines.length} more not shown)\n`), 0);
+  const kept = sections.map(() => 0);
+
+  const take = (index: number, limit: number) => {
+    const section = sections[index];
+    while (kept[index] < Math.min(limit, section.lines.length)) {
+      const cost = estimateTokens(section.lines[kept[index]] + '\n');
+      if (used + cost > budget) return false;
+      used += cost;
+      kept[index]++;
+    }
+    return true;
+  };
+
+  // A few lines of everything first, then fill up in priority order
+  sections.every((_, index) => take(index, MIN_LINES_PER_SECTION));
+  sections.every((_, index) => take(index, Infinity));
+
+  return [
+    ...renderSection(overview, overview.lines.length),
+    ...sections.flatMap((section, index) => ['', ...renderSection(section, kept[index])]),
+  ].join('\n');
+}
@@ -0,0 +1,255 @@
+import type { Income, Expense, Asset, Liability } from '@shared/schema';
+import { subtractMoney, sumMoney, roundMoney } from '@shared/money';
+import type { IStorage } from './storage';
+import { CurrencyConverter, convertFinancialData, convertRecord, appliedRates, type AppliedRate, type Converted } from './currency';
+import { incomeForWindow, isInWindow, monthsInWindow, type SummaryWindow } from './summary';
+import { percent } from './expense-report';
+import { addDays, formatDate, formatMonth } from './dates';
+
+// Income statements and cash-flow statements, both in the user's base
+// currency. Recurring incomes are normalized to a monthly amount and
+// prorated over the period, as in the summary.
+
+export interface IncomeSourceLine {
+  source: string;
+  category: string;
+  amount: number;
+}
+
+export interface IncomeTypeSection {
+  type: Income['type'];
+  total: number;
+  sources: IncomeSourceLine[];
+}
+
+export interface IncomeSection {
+  total: number;
+  byType: IncomeTypeSection[];
+}
+
+export interface ExpenseCategoryLine {
+  category: string;
+  amount: number;
+  count: number;
+}
+
+export interface ExpenseSection {
+  total: number;
+  byCategory: ExpenseCategoryLine[];
+}
+
+interface StatementBase {
+  from: string;
+  // Inclusive
+  to: string;
+  currency: string;
+  exchangeRates: AppliedRate[];
+  // Currencies without a rate, whose amounts are left out
+  missingCurrencies: string[];
+}
+
+export interface IncomeStatement extends StatementBase {
+  period: string;
+  income: IncomeSection;
+  expenses: ExpenseSection;
+  netIncome: number;
+  // Percent of income left after expenses; null without income
+  savingsRate: number | null;
+}
+
+export interface DebtPaymentLine {
+  liabilityId: string;
+  description: string;
+  type: string;
+  amount: number;
+}
+
+export interface AssetPurchaseLine {
+  assetId: string;
+  name: string;
+  category: string;
+  purchaseDate: string;
+  amount: number;
+}
+
+export interface CashFlowStatement extends StatementBase {
+  operating: {
+    inflows: IncomeSection;
+    outflows: ExpenseSection;
+    net: number;
+  };
+  financing: {
+    // Scheduled minimum payments, prorated over the part of the period each
+    // liability existed in
+    debtPayments: { total: number; lines: DebtPaymentLine[] };
+    net: number;
+  };
+  investing: {
+    // Assets added during the period, at their initial valuation
+    assetPurchases: { total: number; lines: AssetPurchaseLine[] };
+    net: number;
+  };
+  netCashFlow: number;
+}
+
+const incomeTypes: Income['type'][] = ['active', 'passive'];
+
+// Income received in the window by type, then by source and category
+export function buildIncomeSection(incomes: Income[], window: SummaryWindow, currency: string): IncomeSection {
+  const byType = incomeTypes.map(type => {
+    const sources = new Map<string, IncomeSourceLine>();
+    incomes
+      .filter(income => income.type === type)
+      .forEach(income => {
+        const amount = incomeForWindow(income, window);
+        if (amount === 0) return;
+        const key = `${income.source}|${income.category}`;
+        const line = sources.get(key) ?? { source: income.source, category: income.category, amount: 0 };
+        sources.set(key, { ...line, amount: sumMoney([line.amount, amount], currency) });
+      });
+    const lines = Array.from(sources.values())
+      .sort((a, b) => b.amount - a.amount || a.source.localeCompare(b.source));
+    return { type, total: sumMoney(lines.map(line => line.amount), currency), sources: lines };
+  }).filter(section => section.sources.length > 0);
+
+  return { total: sumMoney(byType.map(section => section.total), currency), byType };
+}
+
+export function buildExpenseSection(expenses: Expense[], window: SummaryWindow, currency: string): ExpenseSection {
+  const categories = new Map<string, ExpenseCategoryLine>();
+  expenses
+    .filter(expense => isInWindow(new Date(expense.date), window))
+    .forEach(expense => {
+      const line = categories.get(expense.category) ?? { category: expense.category, amount: 0, count: 0 };
+      categories.set(expense.category, {
+        ...line,
+        amount: sumMoney([line.amount, expense.amount], currency),
+        count: line.count + 1,
+      });
+    });
+  const byCategory = Array.from(categories.values())
+    .sort((a, b) => b.amount - a.amount || a.category.localeCompare(b.category));
+
+  return { total: sumMoney(byCategory.map(line => line.amount), currency), byCategory };
+}
+
+export function buildDebtPayments(liabilities: Liability[], window: SummaryWindow, currency: string): DebtPaymentLine[] {
+  return liabilities
+    .filter(liability => liability.minimumPayment)
+    .map(liability => {
+      const created = new Date(liability.createdAt);
+      const from = new Date(created.getFullYear(), created.getMonth(), created.getDate());
+      const activeWindow = { from: from > window.from ? from : window.from, to: window.to };
+      const amount = activeWindow.from < activeWindow.to
+        ? roundMoney(liability.minimumPayment! * monthsInWindow(activeWindow), currency)
+        : 0;
+      return { liabilityId: liability.id, description: liability.description, type: liability.type, amount };
+    })
+    .filter(line => line.amount > 0)
+    .sort((a, b) => b.amount - a.amount || a.description.localeCompare(b.description));
+}
+
+// Only the records the window needs, in the base currency: expenses and
+// one-time incomes at the rate of their own date, everything else at the
+// rate when the window ends. Assets are those added during the window and
+// liabilities those added before it ended; the income statement uses
+// neither.
+async function loadStatementData(storage: IStorage, userId: number, window: SummaryWindow, balances: boolean) {
+  const now = new Date();
+  const last = addDays(window.to, -1);
+  const [incomes, expenses, assets, liabilities, baseCurrency, rates] = await Promise.all([
+    storage.listIncomes(userId, { from: window.from, to: last, sort: 'startDate', order: 'asc', limit: undefined, cursor: undefined }),
+    storage.getExpensesBetween(userId, window.from, window.to),
+    balances ? storage.listAssets(userId, { from: window.from, to: last, sort: 'createdAt', order: 'asc', limit: undefined, cursor: undefined }) : undefined,
+    balances ? storage.listLiabilities(userId, { to: last, sort: 'createdAt', order: 'asc', limit: undefined, cursor: undefined }) : undefined,
+    storage.getBaseCurrency(userId),
+    storage.getExchangeRates(userId),
+  ]);
+  const data = {
+    incomes: incomes.items,
+    expenses,
+    assets: assets?.items ?? [],
+    liabilities: liabilities?.items ?? [],
+    goals: [],
+  };
+  const converter = new CurrencyConverter(baseCurrency, rates);
+  const asOf = window.to < now ? last : now;
+  return { data, converter, converted: convertFinancialData(data, converter, asOf) };
+}
+
+// The calendar month starting at `month`
+export async function getIncomeStatement(storage: IStorage, userId: number, month: Date): Promise<IncomeStatement> {
+  const window = { from: month, to: new Date(month.getFullYear(), month.getMonth() + 1, 1) };
+  const { converted: data } = await loadStatementData(storage, userId, window, false);
+  const { currency } = data;
+
+  const income = buildIncomeSection(data.incomes, window, currency);
+  const expenses = buildExpenseSection(data.expenses, window, currency);
+  const netIncome = subtractMoney(income.total, expenses.total, currency);
+
+  return {
+    period: formatMonth(month),
+    from: formatDate(window.from),
+    to: formatDate(addDays(window.to, -1)),
+    currency,
+    income,
+    expenses,
+    netIncome,
+    savingsRate: income.total > 0 ? percent((netIncome / income.total) * 100) : null,
+    exchangeRates: appliedRates([
+      ...data.incomes.filter(income => incomeForWindow(income, window) > 0),
+      ...data.expenses.filter(expense => isInWindow(new Date(expense.date), window)),
+    ]),
+    missingCurrencies: data.missingCurrencies,
+  };
+}
+
+export async function getCashFlowStatement(storage: IStorage, userId: number, window: SummaryWindow): Promise<CashFlowStatement> {
+  const { data: original, converter, converted: data } = await loadStatementData(storage, userId, window, true);
+  const { currency } = data;
+
+  const inflows = buildIncomeSection(data.incomes, window, currency);
+  const outflows = buildExpenseSection(data.expenses, window, currency);
+  const debtPayments = buildDebtPayments(data.liabilities, window, currency);
+
+  // Purchases are valued as first recorded, at the rate of the day the
+  // asset was added
+  const purchased = original.assets;
+  const missing = new Set(data.missingCurrencies);
+  const initialValues = new Map((await storage.getFirstAssetValuations(userId, purchased.map(asset => asset.id)))
+    .map(valuation => [valuation.assetId, valuation.value]));
+  const purchases: Converted<Asset>[] = purchased.flatMap(asset =>
+    convertRecord({ ...asset, value: initialValues.get(asset.id) ?? asset.value }, ['value'], new Date(asset.createdAt), converter, missing) ?? []);
+  const purchaseLines = purchases
+    .map(asset => ({
+      assetId: asset.id,
+      name: asset.name,
+      category: asset.category,
+      purchaseDate: formatDate(new Date(asset.createdAt)),
+      amount: asset.value,
+    }))
+    .sort((a, b) => a.purchaseDate.localeCompare(b.purchaseDate) || a.name.localeCompare(b.name));
+
+  const operatingNet = subtractMoney(inflows.total, outflows.total, currency);
+  const debtPaymentTotal = sumMoney(debtPayments.map(line => line.amount), currency);
+  const purchaseTotal = sumMoney(purchaseLines.map(line => line.amount), currency);
+  const financingNet = subtractMoney(0, debtPaymentTotal, currency);
+  const investingNet = subtractMoney(0, purchaseTotal, currency);
+
+  return {
+    from: formatDate(window.from),
+    to: formatDate(addDays(window.to, -1)),
+    currency,
+    operating: { inflows, outflows, net: operatingNet },
+    financing: { debtPayments: { total: debtPaymentTotal, lines: debtPayments }, net: financingNet },
+    investing: { assetPurchases: { total: purchaseTotal, lines: purchaseLines }, net: investingNet },
+    netCashFlow: sumMoney([operatingNet, financingNet, investingNet], currency),
+    exchangeRates: appliedRates([
+      ...data.incomes.filter(income => incomeForWindow(income, window) > 0),
+      ...data.expenses.filter(expense => isInWindow(new Date(expense.date), window)),
+      ...data.liabilities.filter(liability => debtPayments.some(line => line.liabilityId === liability.id)),
+      ...purchases,
+    ]),
+    missingCurrencies: Array.from(missing).sort(),
+  };
+}
@@ -0,0 +1,75 @@
+import type { Goal, GoalContribution } from '@shared/schema';
+import { roundMoney, subtractMoney, sumMoney } from '@shared/money';
+import { addDays } from './dates';
+
+// Months of contributions averaged to work out the current saving pace
+export const PACE_MONTHS = 6;
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+export type GoalStatus = 'completed' | 'on_track' | 'behind';
+
+export interface GoalProjection {
+  remainingAmount: number;
+  // Whole calendar months until the target date, 0 once it has passed
+  monthsRemaining: number;
+  // Needed each month from now on to reach the target on time
+  requiredMonthlyContribution: number;
+  // Average contributed per month recently
+  monthlyPace: number;
+  // When the target is reached at the current pace; null if it never is
+  projectedCompletionDate: Date | null;
+  status: GoalStatus;
+}
+
+function monthsBetween(from: Date, to: Date): number {
+  return (to.getFullYear() - from.getFullYear()) * 12 + to.getMonth() - from.getMonth();
+}
+
+// Recent contributions per month, over PACE_MONTHS or the life of the goal
+// if it is younger. The opening balance and manual adjustments are not
+// saving and are left out.
+export function contributionPace(goal: Goal, contributions: GoalContribution[], now: Date): number {
+  const windowStart = new Date(now.getFullYear(), now.getMonth() - PACE_MONTHS, now.getDate());
+  const from = goal.createdAt > windowStart ? goal.createdAt : windowStart;
+  const months = Math.max(1, (now.getTime() - from.getTime()) / (DAYS_PER_MONTH * 24 * 60 * 60 * 1000));
+
+  const total = sumMoney(contributions
+    .filter(contribution => contribution.kind !== 'initial' && contribution.kind !== 'adjustment')
+    .filter(contribution => contribution.contributionDate >= from && contribution.contributionDate <= now)
+    .map(contribution => contribution.amount), goal.currency);
+  return Math.max(0, roundMoney(total / months, goal.currency));
+}
+
+export function projectGoal(goal: Goal, contributions: GoalContribution[], now: Date = new Date()): GoalProjection {
+  const remainingAmount = Math.max(0, subtractMoney(goal.targetAmount, goal.currentAmount, goal.currency));
+  const targetDate = new Date(goal.targetDate);
+  const monthsRemaining = Math.max(0, monthsBetween(now, targetDate));
+  const monthlyPace = contributionPace(goal, contributions, now);
+
+  if (remainingAmount === 0) {
+    return {
+      remainingAmount,
+      monthsRemaining,
+      requiredMonthlyContribution: 0,
+      monthlyPace,
+      projectedCompletionDate: null,
+      status: 'completed',
+    };
+  }
+
+  // Past or within the target month everything left is due now
+  const requiredMonthlyContribution = monthsRemaining > 0 ? roundMoney(remainingAmount / monthsRemaining, goal.currency) : remainingAmount;
+  const projectedCompletionDate = monthlyPace > 0
+    ? addDays(now, Math.ceil((remainingAmount / monthlyPace) * DAYS_PER_MONTH))
+    : null;
+
+  return {
+    remainingAmount,
+    monthsRemaining,
+    requiredMonthlyContribution,
+    monthlyPace,
+    projectedCompletionDate,
+    status: projectedCompletionDate && projectedCompletionDate <= targetDate ? 'on_track' : 'behind',
+  };
+}
@@ -0,0 +1,79 @@
+import type { Income, IncomeReceipt } from '@shared/schema';
+import { subtractMoney } from '@shared/money';
+import type { IStorage } from './storage';
+import { formatDate } from './dates';
+import { projectOccurrences } from './recurrence';
+
+export interface ExpectedPayment {
+  incomeId: string;
+  source: string;
+  category: string;
+  type: Income['type'];
+  expectedDate: string;
+  expectedAmount: number;
+  received: boolean;
+  receivedDate?: string;
+  receivedAmount?: number;
+  difference?: number;
+  notes?: string;
+}
+
+// Every date on which the income is due between from and to (inclusive)
+export function projectPaymentDates(income: Income, from: Date, to: Date): Date[] {
+  return projectOccurrences(income, from, to);
+}
+
+// Project expected payments for every income and match them against the
+// receipts recorded for the same expected date
+export function reconcilePayments(
+  incomes: Income[],
+  receipts: IncomeReceipt[],
+  from: Date,
+  to: Date
+): ExpectedPayment[] {
+  const receiptsByKey = new Map<string, IncomeReceipt>();
+  receipts.forEach(receipt => {
+    receiptsByKey.set(`${receipt.incomeId}:${formatDate(receipt.expectedDate)}`, receipt);
+  });
+
+  const payments: ExpectedPayment[] = [];
+  incomes.forEach(income => {
+    projectPaymentDates(income, from, to).forEach(date => {
+      const expectedDate = formatDate(date);
+      const receipt = receiptsByKey.get(`${income.id}:${expectedDate}`);
+      payments.push({
+        incomeId: income.id,
+        source: income.source,
+        category: income.category,
+        type: income.type,
+        expectedDate,
+        expectedAmount: income.amount,
+        received: !!receipt,
+        receivedDate: receipt ? formatDate(receipt.receivedDate) : undefined,
+        receivedAmount: receipt?.amount,
+        difference: receipt ? subtractMoney(receipt.amount, income.amount, income.currency) : undefined,
+        notes: receipt?.notes,
+      });
+    });
+  });
+
+  return payments.sort((a, b) => a.expectedDate.localeCompare(b.expectedDate));
+}
+
+export async function getExpectedPayments(
+  storage: IStorage,
+  userId: number,
+  from: Date,
+  to: Date
+): Promise<ExpectedPayment[]> {
+  const [incomes, receipts] = await Promise.all([
+    storage.getAllIncomes(userId),
+    storage.getIncomeReceipts(userId, from, to),
+  ]);
+  return reconcilePayments(incomes, receipts, from, to);
+}
+
+// Whether the income is actually due on the given date
+export function isExpectedPaymentDate(income: Income, date: Date): boolean {
+  return projectPaymentDates(income, date, date).length > 0;
+}
@@ -2,6 +2,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { closeConnection } from "./db";
+import { storage } from "./storage";
+import { startRecurringExpenseScheduler } from "./recurring-expenses";
 import * as dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, resolve } from 'path';
@@ -32,7 +34,8 @@ console.log('Environment variables loaded:', {
 });
 
 const app = express();
-app.use(express.json());
+// Larger limit so CSV and statement uploads fit in a JSON body
+app.use(express.json({ limit: '5mb' }));
 app.use(express.urlencoded({ extended: false }));
 
 // Add CORS headers for cross-domain requests
@@ -120,9 +123,13 @@ app.use((req, res, next) => {
     log('Running on Vercel - no need to listen on a port');
   }
 
+  // Generate expenses from recurring templates as they come due
+  const stopRecurringExpenseScheduler = startRecurringExpenseScheduler(storage);
+
   // Handle cleanup on server shutdown
   const cleanup = async () => {
     log("Shutting down server...");
+    stopRecurringExpenseScheduler();
     await closeConnection();
     process.exit(0);
   };
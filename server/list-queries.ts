@@ -0,0 +1,136 @@
+import { z } from 'zod';
+import { parseDateParam } from './dates';
+
+// Query parameters for the income, expense, asset, liability and goal list
+// routes. Without `limit` or `cursor` a list route answers with a plain array
+// of every matching row, as it did before lists were paged; with either it
+// answers with a page of rows in a stable order, and the next page is asked
+// for with the cursor returned alongside the previous one.
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export const sortOrders = ['asc', 'desc'] as const;
+export type SortOrder = typeof sortOrders[number];
+
+export interface Page<T> {
+  items: T[];
+  // Null on the last page
+  nextCursor: string | null;
+}
+
+// Where a page ended: the sort column's value and the id of its last row,
+// ties on the sort column being broken by id
+export interface ListCursor {
+  sort: string;
+  order: SortOrder;
+  value: string;
+  id: string;
+}
+
+export function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.order, cursor.value, cursor.id])).toString('base64url');
+}
+
+export function decodeCursor(encoded: string): ListCursor | undefined {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (!Array.isArray(parsed) || parsed.length !== 4 || !parsed.every(part => typeof part === 'string')) return undefined;
+    const [sort, order, value, id] = parsed as string[];
+    return sortOrders.includes(order as SortOrder) ? { sort, order: order as SortOrder, value, id } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// A YYYY-MM-DD query parameter, as a local calendar date
+export const dateParam = z.string()
+  .refine(value => parseDateParam(value) !== undefined, { message: "Expected YYYY-MM-DD" })
+  .transform(value => parseDateParam(value)!);
+
+const filterText = z.string().trim().min(1).max(200);
+
+const commonListParams = {
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+  cursor: z.string().optional(),
+  // Inclusive; which date this applies to depends on the list
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+  // Compared with the amount in the record's own currency
+  minAmount: z.coerce.number().optional(),
+  maxAmount: z.coerce.number().optional(),
+  // Case-insensitive substring of the list's text fields
+  q: filterText.optional(),
+};
+
+function listQuerySchema<const Sorts extends readonly [string, ...string[]], Filters extends z.ZodRawShape>(
+  sorts: Sorts,
+  defaults: { sort: Sorts[number]; order: SortOrder },
+  filters: Filters
+) {
+  return z.object({
+    ...commonListParams,
+    sort: z.enum(sorts).default(defaults.sort as never),
+    order: z.enum(sortOrders).default(defaults.order),
+    ...filters,
+  }).transform((query, ctx) => {
+    if (query.from && query.to && query.from > query.to) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['from'], message: "from must not be after to" });
+    }
+    if (query.minAmount !== undefined && query.maxAmount !== undefined && query.minAmount > query.maxAmount) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['minAmount'], message: "minAmount must not be more than maxAmount" });
+    }
+    const cursor = query.cursor === undefined ? undefined : decodeCursor(query.cursor);
+    if (query.cursor !== undefined && !cursor) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cursor'], message: "Invalid cursor" });
+    } else if (cursor && (cursor.sort !== query.sort || cursor.order !== query.order)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cursor'], message: "Cursor was issued for a different sort order" });
+    }
+    // A cursor on its own continues with pages of the default size
+    return { ...query, cursor, limit: query.limit ?? (cursor ? DEFAULT_PAGE_SIZE : undefined) };
+  });
+}
+
+// `from`/`to` select incomes active at some point in the range
+export const incomeListQuerySchema = listQuerySchema(
+  ['startDate', 'amount', 'source', 'category', 'createdAt'],
+  { sort: 'startDate', order: 'desc' },
+  {
+    category: filterText.optional(),
+    type: z.enum(['active', 'passive']).optional(),
+    frequency: z.enum(['monthly', 'bi-weekly', 'weekly', 'annually', 'one-time']).optional(),
+  }
+);
+
+export const expenseListQuerySchema = listQuerySchema(
+  ['date', 'amount', 'category', 'description', 'createdAt'],
+  { sort: 'date', order: 'desc' },
+  { category: filterText.optional() }
+);
+
+// `from`/`to` apply to when the asset was added, the amounts to its value
+export const assetListQuerySchema = listQuerySchema(
+  ['createdAt', 'name', 'category', 'value'],
+  { sort: 'createdAt', order: 'desc' },
+  { category: filterText.optional() }
+);
+
+// `from`/`to` apply to when the liability was added
+export const liabilityListQuerySchema = listQuerySchema(
+  ['createdAt', 'description', 'type', 'amount', 'interestRate'],
+  { sort: 'createdAt', order: 'desc' },
+  { type: filterText.optional() }
+);
+
+// `from`/`to` apply to the target date, the amounts to the target amount
+export const goalListQuerySchema = listQuerySchema(
+  ['targetDate', 'targetAmount', 'currentAmount', 'description', 'createdAt'],
+  { sort: 'targetDate', order: 'asc' },
+  {}
+);
+
+export type IncomeListQuery = z.infer<typeof incomeListQuerySchema>;
+export type ExpenseListQuery = z.infer<typeof expenseListQuerySchema>;
+export type AssetListQuery = z.infer<typeof assetListQuerySchema>;
+export type LiabilityListQuery = z.infer<typeof liabilityListQuerySchema>;
+export type GoalListQuery = z.infer<typeof goalListQuerySchema>;
@@ -0,0 +1,354 @@
+// Chat completion providers behind a single interface, so the AI routes do not
+// depend on a particular vendor. The provider is picked from LLM_PROVIDER:
+// "openrouter" (default), "openai-compatible" for any server speaking the
+// OpenAI chat completions API (OpenAI, Ollama, llama.cpp, ...), or "mock"
+// for deterministic offline replies.
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  // JSON-encoded arguments as produced by the model
+  arguments: string;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  // Set on assistant messages that call tools
+  toolCalls?: ToolCall[];
+  // Set on tool messages, naming the call they answer
+  toolCallId?: string;
+}
+
+// A function the model may call, described by a JSON schema
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface CompletionOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Aborts the upstream request, e.g. when the client goes away
+  signal?: AbortSignal;
+  tools?: ToolDefinition[];
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  // Present when the model asked for tools to be run instead of answering
+  toolCalls?: ToolCall[];
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<CompletionResult>;
+  // Like complete, but hands each piece of text to onToken as it arrives
+  stream(messages: ChatMessage[], onToken: (token: string) => void, options?: CompletionOptions): Promise<CompletionResult>;
+}
+
+export class LLMProviderError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+// Rough count for budgeting prompts, at about four characters per token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export const DEFAULT_TEMPERATURE = 0.7;
+export const DEFAULT_MAX_TOKENS = 500;
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  defaultModel: string;
+  headers?: Record<string, string>;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string = 'openai-compatible';
+  readonly defaultModel: string;
+
+  constructor(private readonly config: OpenAICompatibleConfig) {
+    this.defaultModel = config.defaultModel;
+  }
+
+  private async request(messages: ChatMessage[], options: CompletionOptions, stream: boolean): Promise<Response> {
+    const model = options.model ?? this.defaultModel;
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.config.headers,
+    };
+    // Local servers usually run without a key
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    console.log(`Sending chat completion to ${this.name}:`, { model, messages: messages.length, stream });
+    const response = await fetch(`${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal: options.signal,
+      body: JSON.stringify({
+        model,
+        messages: messages.map(toWireMessage),
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(options.tools?.length ? { tools: options.tools.map(tool => ({ type: 'function', function: tool })) } : {}),
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${this.name} API Error:`, errorText);
+      throw new LLMProviderError(`API error: ${response.status} - ${errorText}`, response.status);
+    }
+    return response;
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<CompletionResult> {
+    const response = await this.request(messages, options, false);
+    const data: unknown = await response.json();
+    const choice = isRecord(data) && Array.isArray(data.choices) ? data.choices[0] : undefined;
+    const message = isRecord(choice) && isRecord(choice.message) ? choice.message : undefined;
+    const calls = Array.isArray(message?.tool_calls) ? message.tool_calls.filter(isWireToolCall) : [];
+    const toolCalls: ToolCall[] | undefined = calls.length > 0
+      ? calls.map(call => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: call.function.arguments || '{}',
+        }))
+      : undefined;
+    // Content is null when the model only calls tools
+    if (typeof message?.content !== 'string' && !toolCalls) {
+      throw new LLMProviderError(`${this.name} returned no completion`);
+    }
+
+    return {
+      content: typeof message?.content === 'string' ? message.content.trim() : '',
+      model: isRecord(data) && typeof data.model === 'string' ? data.model : options.model ?? this.defaultModel,
+      toolCalls,
+      usage: isRecord(data) ? toUsage(data.usage) : undefined,
+    };
+  }
+
+  async stream(messages: ChatMessage[], onToken: (token: string) => void, options: CompletionOptions = {}): Promise<CompletionResult> {
+    const response = await this.request(messages, options, true);
+    if (!response.body) {
+      throw new LLMProviderError(`${this.name} returned an empty stream`);
+    }
+
+    let content = '';
+    let model = options.model ?? this.defaultModel;
+    let usage: CompletionResult['usage'];
+    let buffer = '';
+    const decoder = new TextDecoder();
+    const reader = response.body.getReader();
+
+    // Server-sent events: "data: {json}" lines, ending with "data: [DONE]";
+    // other lines are comments or keep-alives
+    const handleLine = (line: string) => {
+      if (!line.startsWith('data:')) return;
+      const payload = line.slice(5).trim();
+      if (payload === '' || payload === '[DONE]') return;
+
+      const chunk: unknown = JSON.parse(payload);
+      if (!isRecord(chunk)) return;
+      if (chunk.error) {
+        const { error } = chunk;
+        const message = isRecord(error) && typeof error.message === 'string' ? error.message : JSON.stringify(error);
+        throw new LLMProviderError(`${this.name} stream error: ${message}`);
+      }
+      if (typeof chunk.model === 'string') model = chunk.model;
+      if (chunk.usage) usage = toUsage(chunk.usage);
+      const choice = Array.isArray(chunk.choices) ? chunk.choices[0] : undefined;
+      const token = isRecord(choice) && isRecord(choice.delta) ? choice.delta.content : undefined;
+      if (typeof token === 'string' && token !== '') {
+        content += token;
+        onToken(token);
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer);
+
+    return { content: content.trim(), model, usage };
+  }
+}
+
+function toWireMessage(message: ChatMessage): Record<string, unknown> {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+// The parts of the OpenAI chat completions wire format read here. Servers
+// speaking it differ in what they fill in, so responses are parsed as
+// unknown and checked against these shapes rather than trusted.
+interface WireToolCall {
+  id: string;
+  function: { name: string; arguments?: string };
+}
+
+interface WireUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isWireToolCall(value: unknown): value is WireToolCall {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && isRecord(value.function)
+    && typeof value.function.name === 'string'
+    && (value.function.arguments === undefined || typeof value.function.arguments === 'string');
+}
+
+function isWireUsage(value: unknown): value is WireUsage {
+  return isRecord(value)
+    && (value.prompt_tokens === undefined || typeof value.prompt_tokens === 'number')
+    && (value.completion_tokens === undefined || typeof value.completion_tokens === 'number');
+}
+
+function toUsage(usage: unknown): CompletionResult['usage'] {
+  return isWireUsage(usage)
+    ? { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 }
+    : undefined;
+}
+
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  readonly name = 'openrouter';
+
+  constructor(apiKey: string | undefined, defaultModel = 'meta-llama/llama-4-maverick:free') {
+    super({
+      baseUrl: 'https://openrouter.ai/api/v1',
+      apiKey,
+      defaultModel,
+      headers: {
+        'HTTP-Referer': process.env.FRONTEND_URL || 'https://balancesheettracker.com',
+        'X-Title': 'Balance Sheet Tracker',
+      },
+    });
+  }
+}
+
+// Replies without any network access; the same messages always produce the
+// same reply, which keeps the chat flow testable offline. When tools are
+// offered, a user message of the form `call <tool> {json}` makes it call
+// that tool, and the following reply reports the tool results.
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly defaultModel = 'mock';
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<CompletionResult> {
+    const last = messages[messages.length - 1];
+    const promptLength = messages.reduce((total, message) => total + message.content.length, 0);
+
+    const toolRequest = last?.role === 'user' ? last.content.trim().match(/^call (\w+)\s*(\{[\s\S]*\})?$/) : null;
+    if (toolRequest && options.tools?.some(tool => tool.name === toolRequest[1])) {
+      return {
+        content: '',
+        model: options.model ?? this.defaultModel,
+        toolCalls: [{ id: `mock-call-${messages.length}`, name: toolRequest[1], arguments: toolRequest[2] ?? '{}' }],
+        usage: { promptTokens: Math.ceil(promptLength / 4), completionTokens: 0 },
+      };
+    }
+
+    const question = last?.role === 'tool'
+      ? `tool results ${messages.filter(message => message.role === 'tool').map(message => message.content).join(' ')}`
+      : [...messages].reverse().find(message => message.role === 'user')?.content ?? '';
+    let content = `Mock response to: ${question.replace(/\s+/g, ' ').trim().slice(0, 200)}`;
+    if (options.maxTokens !== undefined) {
+      // Roughly four characters per token
+      content = content.slice(0, options.maxTokens * 4);
+    }
+
+    return {
+      content,
+      model: options.model ?? this.defaultModel,
+      usage: {
+        promptTokens: Math.ceil(promptLength / 4),
+        completionTokens: Math.ceil(content.length / 4),
+      },
+    };
+  }
+
+  // Emits the same reply word by word
+  async stream(messages: ChatMessage[], onToken: (token: string) => void, options: CompletionOptions = {}): Promise<CompletionResult> {
+    const result = await this.complete(messages, options);
+    for (const token of result.content.match(/\S+\s*/g) ?? []) {
+      options.signal?.throwIfAborted();
+      onToken(token);
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    return result;
+  }
+}
+
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const provider = env.LLM_PROVIDER || 'openrouter';
+
+  switch (provider) {
+    case 'openrouter':
+      return new OpenRouterProvider(env.OPENROUTER_API_KEY, env.LLM_MODEL || undefined);
+    case 'openai-compatible':
+      if (!env.LLM_BASE_URL || !env.LLM_MODEL) {
+        throw new Error('LLM_BASE_URL and LLM_MODEL are required for the openai-compatible provider');
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: env.LLM_BASE_URL,
+        apiKey: env.LLM_API_KEY,
+        defaultModel: env.LLM_MODEL,
+      });
+    case 'mock':
+      return new MockProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${provider}", expected openrouter, openai-compatible or mock`);
+  }
+}
+
+let defaultProvider: LLMProvider | undefined;
+
+// Provider configured by the environment, created on first use
+export function getLLMProvider(): LLMProvider {
+  if (!defaultProvider) {
+    defaultProvider = createLLMProvider();
+    console.log('Using LLM provider:', { name: defaultProvider.name, model: defaultProvider.defaultModel });
+  }
+  return defaultProvider;
+}
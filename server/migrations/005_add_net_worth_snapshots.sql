@@ -0,0 +1,15 @@
+-- Daily net worth snapshots, one row per user per day
+CREATE TABLE IF NOT EXISTS net_worth_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  snapshot_date DATE NOT NULL,
+  total_assets NUMERIC NOT NULL,
+  total_liabilities NUMERIC NOT NULL,
+  net_worth NUMERIC NOT NULL,
+  assets_by_category JSONB NOT NULL DEFAULT '{}',
+  liabilities_by_type JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS net_worth_snapshots_user_date_idx
+ON net_worth_snapshots (user_id, snapshot_date);
@@ -0,0 +1,37 @@
+-- Dated value history for individual assets and liabilities
+CREATE TABLE IF NOT EXISTS asset_valuations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  asset_id UUID NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  value NUMERIC NOT NULL,
+  valuation_date DATE NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS asset_valuations_asset_date_idx
+ON asset_valuations (asset_id, valuation_date);
+
+CREATE TABLE IF NOT EXISTS liability_valuations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  liability_id UUID NOT NULL REFERENCES liabilities(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  amount NUMERIC NOT NULL,
+  valuation_date DATE NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS liability_valuations_liability_date_idx
+ON liability_valuations (liability_id, valuation_date);
+
+-- Seed history with the current balances so existing records have a starting point
+INSERT INTO asset_valuations (asset_id, user_id, value, valuation_date, note)
+SELECT id, user_id, value, created_at::date, 'initial'
+FROM assets
+WHERE NOT EXISTS (SELECT 1 FROM asset_valuations WHERE asset_valuations.asset_id = assets.id);
+
+INSERT INTO liability_valuations (liability_id, user_id, amount, valuation_date, note)
+SELECT id, user_id, amount, created_at::date, 'initial'
+FROM liabilities
+WHERE NOT EXISTS (SELECT 1 FROM liability_valuations WHERE liability_valuations.liability_id = liabilities.id);
@@ -0,0 +1,27 @@
+-- Payment schedule for incomes
+ALTER TABLE incomes
+ADD COLUMN IF NOT EXISTS start_date DATE,
+ADD COLUMN IF NOT EXISTS end_date DATE,
+ADD COLUMN IF NOT EXISTS pay_day INTEGER;
+
+-- Existing incomes are anchored on the day they were entered
+UPDATE incomes SET start_date = created_at::date WHERE start_date IS NULL;
+
+ALTER TABLE incomes
+ALTER COLUMN start_date SET DEFAULT CURRENT_DATE,
+ALTER COLUMN start_date SET NOT NULL;
+
+-- Actual receipts reconciled against projected payments
+CREATE TABLE IF NOT EXISTS income_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  income_id UUID NOT NULL REFERENCES incomes(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  expected_date DATE NOT NULL,
+  received_date DATE NOT NULL,
+  amount NUMERIC NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS income_receipts_income_expected_date_idx
+ON income_receipts (income_id, expected_date);
@@ -0,0 +1,23 @@
+-- Recurring expense templates (rent, subscriptions, insurance)
+CREATE TABLE IF NOT EXISTS recurring_expenses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  category TEXT NOT NULL,
+  amount NUMERIC NOT NULL,
+  description TEXT NOT NULL,
+  cadence TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  next_due_date DATE NOT NULL,
+  end_date DATE,
+  pay_day INTEGER,
+  status TEXT NOT NULL DEFAULT 'active',
+  notes TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS recurring_expenses_status_due_idx
+ON recurring_expenses (status, next_due_date);
+
+-- Expenses generated from a template keep a link back to it
+ALTER TABLE expenses
+ADD COLUMN IF NOT EXISTS recurring_expense_id UUID REFERENCES recurring_expenses(id) ON DELETE SET NULL;
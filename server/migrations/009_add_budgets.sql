@@ -0,0 +1,13 @@
+-- Monthly spending limits per expense category
+CREATE TABLE IF NOT EXISTS budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  category TEXT NOT NULL,
+  month TEXT NOT NULL,
+  limit_amount NUMERIC NOT NULL,
+  rollover BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS budgets_user_category_month_idx
+ON budgets (user_id, category, month);
@@ -0,0 +1,19 @@
+-- Bank transaction ids (account id + OFX FITID) so statements import only once
+ALTER TABLE expenses
+ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+ALTER TABLE incomes
+ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS expenses_user_external_id_idx
+ON expenses (user_id, external_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS incomes_user_external_id_idx
+ON incomes (user_id, external_id);
+
+-- Bank account ids that statement balances are mapped onto
+ALTER TABLE assets
+ADD COLUMN IF NOT EXISTS account_id TEXT;
+
+ALTER TABLE liabilities
+ADD COLUMN IF NOT EXISTS account_id TEXT;
@@ -0,0 +1,17 @@
+-- Writes proposed by the AI assistant, waiting for the user to confirm
+CREATE TABLE IF NOT EXISTS ai_pending_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  conversation_id UUID REFERENCES ai_conversations(id) ON DELETE CASCADE,
+  tool TEXT NOT NULL,
+  arguments JSONB NOT NULL,
+  description TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  result JSONB,
+  error TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS ai_pending_actions_user_status_idx
+ON ai_pending_actions (user_id, status);
@@ -0,0 +1,2 @@
+-- Required monthly payment per liability, used by the debt payoff planner
+ALTER TABLE liabilities ADD COLUMN IF NOT EXISTS minimum_payment NUMERIC;
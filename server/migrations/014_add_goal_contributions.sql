@@ -0,0 +1,21 @@
+-- Dated contributions towards savings goals
+CREATE TABLE IF NOT EXISTS goal_contributions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  goal_id UUID NOT NULL REFERENCES goals(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  asset_id UUID REFERENCES assets(id) ON DELETE SET NULL,
+  contribution_date DATE NOT NULL,
+  amount NUMERIC NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS goal_contributions_goal_date_idx
+ON goal_contributions (goal_id, contribution_date);
+
+-- Seed the ledger with the current amounts so it adds up for existing goals
+INSERT INTO goal_contributions (goal_id, user_id, contribution_date, amount, note)
+SELECT id, user_id, created_at::date, current_amount, 'initial'
+FROM goals
+WHERE current_amount <> 0
+AND NOT EXISTS (SELECT 1 FROM goal_contributions WHERE goal_contributions.goal_id = goals.id);
@@ -0,0 +1,15 @@
+-- Assets whose value makes up a goal's progress
+CREATE TABLE IF NOT EXISTS goal_assets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  goal_id UUID NOT NULL REFERENCES goals(id) ON DELETE CASCADE,
+  asset_id UUID NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  percentage NUMERIC NOT NULL DEFAULT 100,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS goal_assets_goal_asset_idx
+ON goal_assets (goal_id, asset_id);
+
+CREATE INDEX IF NOT EXISTS goal_assets_asset_idx
+ON goal_assets (asset_id);
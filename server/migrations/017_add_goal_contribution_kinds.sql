@@ -0,0 +1,13 @@
+-- What each goal contribution is, instead of recognising the opening
+-- balance, manual adjustments and linked asset changes by their note
+ALTER TABLE goal_contributions
+ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'contribution';
+
+UPDATE goal_contributions SET kind = 'initial', note = NULL
+WHERE note = 'initial' AND kind = 'contribution';
+
+UPDATE goal_contributions SET kind = 'adjustment', note = NULL
+WHERE note = 'adjustment' AND kind = 'contribution';
+
+UPDATE goal_contributions SET kind = 'linked', note = NULL
+WHERE note = 'linked assets' AND kind = 'contribution';
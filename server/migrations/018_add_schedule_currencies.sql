@@ -0,0 +1,23 @@
+-- Currency of recurring expenses and budgets. Both were entered in the
+-- user's base currency until now, so existing rows take that.
+ALTER TABLE recurring_expenses ADD COLUMN IF NOT EXISTS currency TEXT;
+
+UPDATE recurring_expenses SET currency = users.base_currency
+FROM users
+WHERE recurring_expenses.user_id = users.id AND recurring_expenses.currency IS NULL;
+
+ALTER TABLE recurring_expenses ALTER COLUMN currency SET DEFAULT 'USD';
+ALTER TABLE recurring_expenses ALTER COLUMN currency SET NOT NULL;
+
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS currency TEXT;
+
+UPDATE budgets SET currency = users.base_currency
+FROM users
+WHERE budgets.user_id = users.id AND budgets.currency IS NULL;
+
+ALTER TABLE budgets ALTER COLUMN currency SET DEFAULT 'USD';
+ALTER TABLE budgets ALTER COLUMN currency SET NOT NULL;
+
+-- Currencies a net worth snapshot had no rate for and so left out
+ALTER TABLE net_worth_snapshots
+ADD COLUMN IF NOT EXISTS missing_currencies JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,77 @@
+-- Round amounts written before storage rounded them to the minor units of
+-- their record's currency, so reading a column back gives the exact amount.
+-- Minor-unit digits follow Intl.NumberFormat, as in shared/money.ts; rounding
+-- is half away from zero, as ROUND does for numeric.
+CREATE OR REPLACE FUNCTION pg_temp.currency_decimals(currency TEXT) RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN currency IN ('AFN', 'ALL', 'BIF', 'CLP', 'DJF', 'GNF', 'IQD', 'IRR', 'ISK', 'JPY',
+                      'KMF', 'KPW', 'KRW', 'LAK', 'LBP', 'MGA', 'MMK', 'PYG', 'RSD', 'RWF',
+                      'SLL', 'SOS', 'SYP', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF', 'YER') THEN 0
+    WHEN currency IN ('BHD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND') THEN 3
+    ELSE 2
+  END
+$$ LANGUAGE SQL IMMUTABLE;
+
+UPDATE incomes SET amount = ROUND(amount, pg_temp.currency_decimals(currency))
+WHERE amount <> ROUND(amount, pg_temp.currency_decimals(currency));
+
+UPDATE expenses SET amount = ROUND(amount, pg_temp.currency_decimals(currency))
+WHERE amount <> ROUND(amount, pg_temp.currency_decimals(currency));
+
+UPDATE recurring_expenses SET amount = ROUND(amount, pg_temp.currency_decimals(currency))
+WHERE amount <> ROUND(amount, pg_temp.currency_decimals(currency));
+
+UPDATE budgets SET limit_amount = ROUND(limit_amount, pg_temp.currency_decimals(currency))
+WHERE limit_amount <> ROUND(limit_amount, pg_temp.currency_decimals(currency));
+
+UPDATE assets SET
+  value = ROUND(value, pg_temp.currency_decimals(currency)),
+  income_generated = ROUND(income_generated, pg_temp.currency_decimals(currency))
+WHERE value <> ROUND(value, pg_temp.currency_decimals(currency))
+   OR income_generated <> ROUND(income_generated, pg_temp.currency_decimals(currency));
+
+UPDATE liabilities SET
+  amount = ROUND(amount, pg_temp.currency_decimals(currency)),
+  minimum_payment = ROUND(minimum_payment, pg_temp.currency_decimals(currency))
+WHERE amount <> ROUND(amount, pg_temp.currency_decimals(currency))
+   OR minimum_payment <> ROUND(minimum_payment, pg_temp.currency_decimals(currency));
+
+UPDATE goals SET
+  target_amount = ROUND(target_amount, pg_temp.currency_decimals(currency)),
+  current_amount = ROUND(current_amount, pg_temp.currency_decimals(currency))
+WHERE target_amount <> ROUND(target_amount, pg_temp.currency_decimals(currency))
+   OR current_amount <> ROUND(current_amount, pg_temp.currency_decimals(currency));
+
+-- Child rows are in the currency of the record they belong to
+UPDATE income_receipts SET amount = ROUND(income_receipts.amount, pg_temp.currency_decimals(incomes.currency))
+FROM incomes
+WHERE income_receipts.income_id = incomes.id
+  AND income_receipts.amount <> ROUND(income_receipts.amount, pg_temp.currency_decimals(incomes.currency));
+
+UPDATE goal_contributions SET amount = ROUND(goal_contributions.amount, pg_temp.currency_decimals(goals.currency))
+FROM goals
+WHERE goal_contributions.goal_id = goals.id
+  AND goal_contributions.amount <> ROUND(goal_contributions.amount, pg_temp.currency_decimals(goals.currency));
+
+UPDATE asset_valuations SET value = ROUND(asset_valuations.value, pg_temp.currency_decimals(assets.currency))
+FROM assets
+WHERE asset_valuations.asset_id = assets.id
+  AND asset_valuations.value <> ROUND(asset_valuations.value, pg_temp.currency_decimals(assets.currency));
+
+UPDATE liability_valuations SET amount = ROUND(liability_valuations.amount, pg_temp.currency_decimals(liabilities.currency))
+FROM liabilities
+WHERE liability_valuations.liability_id = liabilities.id
+  AND liability_valuations.amount <> ROUND(liability_valuations.amount, pg_temp.currency_decimals(liabilities.currency));
+
+-- Snapshot totals are in the user's base currency; net worth is taken again
+-- from the rounded totals so it still equals their difference
+UPDATE net_worth_snapshots SET
+  total_assets = ROUND(total_assets, pg_temp.currency_decimals(users.base_currency)),
+  total_liabilities = ROUND(total_liabilities, pg_temp.currency_decimals(users.base_currency)),
+  net_worth = ROUND(total_assets, pg_temp.currency_decimals(users.base_currency))
+    - ROUND(total_liabilities, pg_temp.currency_decimals(users.base_currency))
+FROM users
+WHERE net_worth_snapshots.user_id = users.id
+  AND (total_assets <> ROUND(total_assets, pg_temp.currency_decimals(users.base_currency))
+    OR total_liabilities <> ROUND(total_liabilities, pg_temp.currency_decimals(users.base_currency))
+    OR net_worth <> ROUND(net_worth, pg_temp.currency_decimals(users.base_currency)));
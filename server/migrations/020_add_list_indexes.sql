@@ -0,0 +1,26 @@
+-- Composite indexes for the keyset pagination of the list routes: each
+-- covers a user's rows in (sort column, id) order for the default sort of
+-- a list and for sorting by creation time
+CREATE INDEX IF NOT EXISTS incomes_user_start_date_idx
+ON incomes (user_id, start_date, id);
+
+CREATE INDEX IF NOT EXISTS incomes_user_created_at_idx
+ON incomes (user_id, created_at, id);
+
+CREATE INDEX IF NOT EXISTS expenses_user_date_idx
+ON expenses (user_id, date, id);
+
+CREATE INDEX IF NOT EXISTS expenses_user_created_at_idx
+ON expenses (user_id, created_at, id);
+
+CREATE INDEX IF NOT EXISTS assets_user_created_at_idx
+ON assets (user_id, created_at, id);
+
+CREATE INDEX IF NOT EXISTS liabilities_user_created_at_idx
+ON liabilities (user_id, created_at, id);
+
+CREATE INDEX IF NOT EXISTS goals_user_target_date_idx
+ON goals (user_id, target_date, id);
+
+CREATE INDEX IF NOT EXISTS goals_user_created_at_idx
+ON goals (user_id, created_at, id);
@@ -0,0 +1,101 @@
+import type { NetWorthSnapshot } from '@shared/schema';
+import type { IStorage } from './storage';
+import { addDays, endOfMonth, formatDate } from './dates';
+
+export const netWorthIntervals = ['day', 'week', 'month'] as const;
+export type NetWorthInterval = typeof netWorthIntervals[number];
+
+export interface NetWorthPoint {
+  date: string;
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+  assetsByCategory: Record<string, number>;
+  liabilitiesByType: Record<string, number>;
+  // Currencies the snapshot had no rate for, whose amounts are left out
+  missingCurrencies: string[];
+}
+
+// End date of each interval between from and to (both inclusive); the last
+// point is clamped to `to` so the series always ends on the requested day
+export function intervalEndDates(from: Date, to: Date, interval: NetWorthInterval): Date[] {
+  const dates: Date[] = [];
+  let cursor = from;
+
+  while (cursor <= to) {
+    let end: Date;
+    if (interval === 'day') {
+      end = cursor;
+    } else if (interval === 'week') {
+      end = addDays(cursor, 6);
+    } else {
+      end = endOfMonth(cursor);
+    }
+
+    dates.push(end < to ? end : to);
+    cursor = addDays(end, 1);
+  }
+
+  return dates;
+}
+
+// Build a series from sorted snapshots, carrying the latest known snapshot
+// forward into intervals where nothing changed
+export function buildNetWorthSeries(
+  snapshots: NetWorthSnapshot[],
+  baseline: NetWorthSnapshot | undefined,
+  from: Date,
+  to: Date,
+  interval: NetWorthInterval
+): NetWorthPoint[] {
+  const points: NetWorthPoint[] = [];
+  let latest = baseline;
+  let index = 0;
+
+  intervalEndDates(from, to, interval).forEach(end => {
+    while (index < snapshots.length && snapshots[index].snapshotDate <= end) {
+      latest = snapshots[index];
+      index++;
+    }
+
+    if (!latest) return;
+
+    points.push({
+      date: formatDate(end),
+      totalAssets: latest.totalAssets,
+      totalLiabilities: latest.totalLiabilities,
+      netWorth: latest.netWorth,
+      assetsByCategory: latest.assetsByCategory,
+      liabilitiesByType: latest.liabilitiesByType,
+      missingCurrencies: latest.missingCurrencies,
+    });
+  });
+
+  return points;
+}
+
+// Records today's snapshot once a request's writes to assets, liabilities
+// or exchange rates have committed, one per request however many records it
+// touched. A failure is logged rather than turned into an error for a write
+// that has already succeeded.
+export async function refreshNetWorthSnapshot(storage: IStorage, userId: number): Promise<void> {
+  try {
+    await storage.recordNetWorthSnapshot(userId);
+  } catch (error) {
+    console.error('Error refreshing net worth snapshot:', error);
+  }
+}
+
+export async function getNetWorthHistory(
+  storage: IStorage,
+  userId: number,
+  from: Date,
+  to: Date,
+  interval: NetWorthInterval
+): Promise<NetWorthPoint[]> {
+  const [snapshots, baseline] = await Promise.all([
+    storage.getNetWorthSnapshots(userId, from, to),
+    storage.getNetWorthSnapshotBefore(userId, from),
+  ]);
+  return buildNetWorthSeries(snapshots, baseline, from, to, interval);
+}
@@ -0,0 +1,226 @@
+import { z } from 'zod';
+import { currencyCodeSchema, type Expense, type Income } from '@shared/schema';
+import type { IStorage, ImportRecords } from './storage';
+import { parseOfx, type OfxStatement } from './ofx';
+import { formatDate, parseDateColumn } from './dates';
+
+export const ofxImportRequestSchema = z.object({
+  ofx: z.string().min(1, { message: "OFX content is required" }),
+  defaultCategory: z.string().min(1).default('Uncategorized'),
+  commit: z.boolean().default(false),
+});
+
+export type OfxImportRequest = z.infer<typeof ofxImportRequestSchema>;
+
+export interface OfxImportTransaction {
+  accountId: string;
+  fitId: string;
+  kind: 'expense' | 'income';
+  date: string;
+  amount: number;
+  // The statement's CURDEF, or the user's base currency when it has none
+  currency: string;
+  description: string;
+  duplicate: boolean;
+}
+
+export interface OfxBalanceUpdate {
+  accountId: string;
+  balance: number;
+  currency: string;
+  asOf: string;
+  // Asset or liability the balance was mapped onto, if one has this account id
+  target?: { kind: 'asset' | 'liability'; id: string; name: string };
+  error?: string;
+}
+
+// An entry that could not be read from the statement
+export interface OfxImportError {
+  accountId: string;
+  fitId?: string;
+  error: string;
+}
+
+export interface OfxImportResult {
+  committed: boolean;
+  transactions: OfxImportTransaction[];
+  balances: OfxBalanceUpdate[];
+  errors: OfxImportError[];
+  counts: {
+    total: number;
+    invalid: number;
+    duplicates: number;
+    expenses: number;
+    incomes: number;
+    imported: number;
+  };
+}
+
+// FITIDs are only unique within an account, so both make up the id
+export function externalIdFor(accountId: string, fitId: string): string {
+  return `ofx:${accountId}:${fitId}`;
+}
+
+export async function importOfx(storage: IStorage, userId: number, request: OfxImportRequest): Promise<OfxImportResult> {
+  const statements: OfxStatement[] = parseOfx(request.ofx);
+  const baseCurrency = await storage.getBaseCurrency(userId);
+
+  const allTransactions = statements.flatMap(statement =>
+    statement.transactions.map(transaction => ({ statement, transaction }))
+  );
+  const existing = await storage.getExistingExternalIds(
+    userId,
+    allTransactions.map(({ statement, transaction }) => externalIdFor(statement.accountId, transaction.fitId))
+  );
+
+  const transactions: OfxImportTransaction[] = [];
+  const expenses: Omit<Expense, "id" | "createdAt">[] = [];
+  const incomes: Omit<Income, "id" | "createdAt">[] = [];
+  const seen = new Set<string>();
+
+  allTransactions.forEach(({ statement, transaction }) => {
+    const externalId = externalIdFor(statement.accountId, transaction.fitId);
+    const duplicate = existing.has(externalId) || seen.has(externalId);
+    seen.add(externalId);
+
+    // Debits are money leaving the account, credits money coming in
+    const kind = transaction.amount < 0 ? 'expense' : 'income';
+    const amount = Math.abs(transaction.amount);
+    const currency = statement.currency ?? baseCurrency;
+    transactions.push({
+      accountId: statement.accountId,
+      fitId: transaction.fitId,
+      kind,
+      date: formatDate(transaction.datePosted),
+      amount,
+      currency,
+      description: transaction.name,
+      duplicate,
+    });
+
+    if (duplicate) return;
+
+    if (kind === 'expense') {
+      expenses.push({
+        userId,
+        category: request.defaultCategory,
+        amount,
+        currency,
+        description: transaction.name,
+        date: transaction.datePosted,
+        notes: transaction.memo,
+        externalId,
+      });
+    } else {
+      incomes.push({
+        userId,
+        source: transaction.name,
+        category: request.defaultCategory,
+        amount,
+        currency,
+        type: 'active',
+        frequency: 'one-time',
+        startDate: transaction.datePosted,
+        notes: transaction.memo,
+        externalId,
+      });
+    }
+  });
+
+  const balances = await mapBalances(storage, userId, statements, baseCurrency);
+  const errors: OfxImportError[] = statements.flatMap(statement => [
+    ...(statement.currency !== undefined && !currencyCodeSchema.safeParse(statement.currency).success
+      ? [{ accountId: statement.accountId, error: `Unrecognized statement currency ${statement.currency}` }]
+      : []),
+    ...statement.errors.map(error => ({ accountId: statement.accountId, ...error })),
+  ]);
+
+  // Only commit a clean statement, as with CSV imports, so an entry that
+  // could not be read is never silently left out
+  const committed = request.commit && errors.length === 0;
+  const written = committed
+    ? await storage.importRecords({ expenses, incomes, ...balanceValuations(userId, balances) })
+    : undefined;
+
+  return {
+    committed,
+    transactions,
+    balances,
+    errors,
+    counts: {
+      total: transactions.length,
+      invalid: errors.length,
+      // Including entries a concurrent import of the same statement wrote first
+      duplicates: transactions.filter(transaction => transaction.duplicate).length + (written?.duplicates ?? 0),
+      expenses: expenses.length,
+      incomes: incomes.length,
+      imported: written ? written.expenses + written.incomes : 0,
+    },
+  };
+}
+
+// Match each statement's ledger balance to the asset or liability carrying
+// the same account id. A balance is only recorded in the currency its
+// target is kept in; valuations are never converted.
+async function mapBalances(storage: IStorage, userId: number, statements: OfxStatement[], baseCurrency: string): Promise<OfxBalanceUpdate[]> {
+  const [assets, liabilities] = await Promise.all([
+    storage.getAllAssets(userId),
+    storage.getAllLiabilities(userId),
+  ]);
+
+  return statements
+    .filter(statement => statement.balance)
+    .map(statement => {
+      const update: OfxBalanceUpdate = {
+        accountId: statement.accountId,
+        balance: statement.balance!.amount,
+        currency: statement.currency ?? baseCurrency,
+        asOf: formatDate(statement.balance!.asOf),
+      };
+
+      const asset = assets.find(candidate => candidate.accountId === statement.accountId);
+      const liability = liabilities.find(candidate => candidate.accountId === statement.accountId);
+
+      if (asset) {
+        update.target = { kind: 'asset', id: asset.id, name: asset.name };
+        const kept = asset.currency ?? baseCurrency;
+        if (update.balance < 0) update.error = 'Negative balance cannot be recorded as an asset value';
+        else if (update.currency !== kept) update.error = `Statement is in ${update.currency} but the asset is kept in ${kept}`;
+      } else if (liability) {
+        update.target = { kind: 'liability', id: liability.id, name: liability.description };
+        const kept = liability.currency ?? baseCurrency;
+        if (update.currency !== kept) update.error = `Statement is in ${update.currency} but the liability is kept in ${kept}`;
+      } else {
+        update.error = 'No asset or liability has this account id';
+      }
+
+      return update;
+    });
+}
+
+// Valuations for the balances that map onto an asset or liability, written
+// in the same transaction as the statement's entries
+function balanceValuations(userId: number, balances: OfxBalanceUpdate[]): Pick<ImportRecords, 'assetValuations' | 'liabilityValuations'> {
+  const mapped = balances.filter(update => update.target && !update.error);
+  return {
+    assetValuations: mapped
+      .filter(update => update.target!.kind === 'asset')
+      .map(update => ({
+        assetId: update.target!.id,
+        userId,
+        value: update.balance,
+        valuationDate: parseDateColumn(update.asOf),
+        note: 'statement',
+      })),
+    // Card and loan statements report the amount owed as a negative balance
+    liabilityValuations: mapped
+      .filter(update => update.target!.kind === 'liability')
+      .map(update => ({
+        liabilityId: update.target!.id,
+        userId,
+        amount: Math.abs(update.balance),
+        valuationDate: parseDateColumn(update.asOf),
+        note: 'statement',
+      })),
+  };
+}
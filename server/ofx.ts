@@ -0,0 +1,145 @@
+// Minimal OFX/QFX reader covering bank and credit card statements. Handles
+// both OFX 1.x (SGML, leaf elements without closing tags) and OFX 2.x (XML),
+// since aggregates such as <STMTTRN> are closed in both.
+
+export interface OfxTransaction {
+  fitId: string;
+  type: string;
+  datePosted: Date;
+  amount: number;
+  name: string;
+  memo?: string;
+}
+
+// An entry that could not be read, reported instead of silently dropped
+export interface OfxTransactionError {
+  fitId?: string;
+  error: string;
+}
+
+export interface OfxStatement {
+  accountId: string;
+  accountType: 'bank' | 'creditcard';
+  currency?: string;
+  balance?: { amount: number; asOf: Date };
+  transactions: OfxTransaction[];
+  errors: OfxTransactionError[];
+}
+
+// Value of a leaf element, stopping at the next tag or line break
+function leaf(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+function aggregates(block: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  return Array.from(block.matchAll(pattern), match => match[1]);
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// OFX dates are YYYYMMDD[HHMMSS[.XXX]][[+-]offset:TZ]; only the calendar
+// day matters for expenses and balances
+export function parseOfxDate(value: string | undefined): Date | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return undefined;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 ? date : undefined;
+}
+
+// Amounts are meant to be plain decimals, but some banks use a decimal comma
+// and some group thousands with commas, dots, spaces or apostrophes. When
+// both a comma and a dot appear, whichever comes last is the decimal mark; a
+// lone comma followed by groups of three digits is a thousands separator.
+function parseOfxAmount(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  let normalized = value.replace(/[\s']/g, '');
+  const lastComma = normalized.lastIndexOf(',');
+  const lastDot = normalized.lastIndexOf('.');
+  if (lastComma !== -1 && lastDot !== -1) {
+    normalized = lastComma > lastDot
+      ? normalized.replace(/\./g, '').replace(',', '.')
+      : normalized.replace(/,/g, '');
+  } else if (lastComma !== -1) {
+    normalized = /^[+-]?\d{1,3}(,\d{3})+$/.test(normalized)
+      ? normalized.replace(/,/g, '')
+      : normalized.replace(',', '.');
+  } else if (/^[+-]?\d{1,3}(\.\d{3}){2,}$/.test(normalized)) {
+    normalized = normalized.replace(/\./g, '');
+  }
+  if (!/^[+-]?(\d+(\.\d*)?|\.\d+)$/.test(normalized)) return undefined;
+  return Number(normalized);
+}
+
+export function parseOfx(text: string): OfxStatement[] {
+  const start = text.search(/<OFX>/i);
+  if (start === -1) {
+    throw new Error('Not an OFX document: missing <OFX> element');
+  }
+  const body = text.slice(start);
+
+  const statements = [
+    ...aggregates(body, 'STMTRS').map(block => ({ block, accountType: 'bank' as const, accountTag: 'BANKACCTFROM' })),
+    ...aggregates(body, 'CCSTMTRS').map(block => ({ block, accountType: 'creditcard' as const, accountTag: 'CCACCTFROM' })),
+  ];
+
+  return statements.map(({ block, accountType, accountTag }) => {
+    const account = aggregates(block, accountTag)[0] ?? block;
+    const accountId = leaf(account, 'ACCTID');
+    if (!accountId) {
+      throw new Error('OFX statement is missing its account id (ACCTID)');
+    }
+
+    const ledger = aggregates(block, 'LEDGERBAL')[0];
+    const balanceAmount = ledger ? parseOfxAmount(leaf(ledger, 'BALAMT')) : undefined;
+    const balanceDate = ledger ? parseOfxDate(leaf(ledger, 'DTASOF')) : undefined;
+
+    const errors: OfxTransactionError[] = [];
+    const transactions = aggregates(block, 'STMTTRN').flatMap(transaction => {
+      const fitId = leaf(transaction, 'FITID');
+      const rawDate = leaf(transaction, 'DTPOSTED');
+      const rawAmount = leaf(transaction, 'TRNAMT');
+      const datePosted = parseOfxDate(rawDate);
+      const amount = parseOfxAmount(rawAmount);
+      // Entries without an id, date or amount cannot be imported or deduplicated
+      if (!fitId || !datePosted || amount === undefined) {
+        errors.push({
+          fitId,
+          error: !fitId ? 'Missing transaction id (FITID)'
+            : !datePosted ? `Invalid posted date "${rawDate ?? ''}"`
+            : `Invalid amount "${rawAmount ?? ''}"`,
+        });
+        return [];
+      }
+
+      const name = leaf(transaction, 'NAME') ?? leaf(transaction, 'PAYEE') ?? leaf(transaction, 'MEMO') ?? 'Unknown';
+      return [{
+        fitId,
+        type: leaf(transaction, 'TRNTYPE') ?? 'OTHER',
+        datePosted,
+        amount,
+        name,
+        memo: leaf(transaction, 'MEMO'),
+      }];
+    });
+
+    return {
+      accountId,
+      accountType,
+      currency: leaf(block, 'CURDEF'),
+      balance: balanceAmount !== undefined && balanceDate ? { amount: balanceAmount, asOf: balanceDate } : undefined,
+      transactions,
+      errors,
+    };
+  });
+}
@@ -0,0 +1,394 @@
+import PDFDocument from 'pdfkit';
+import { createRequire } from 'module';
+import type { IStorage } from './storage';
+import { formatMoney } from './currency';
+import { getBalanceSheet, sameDayLastYear, type BalanceSheet, type BalanceSheetSide } from './balance-sheet';
+import { getIncomeStatement, type IncomeStatement } from './financial-statements';
+import { getBudgetReport, type BudgetReport } from './budgets';
+import { endOfMonth, formatDate, parseDateParam, parseMonthParam } from './dates';
+
+// Printable versions of the balance sheet, income statement and budget
+// variance reports, laid out and charted with pdfkit's vector drawing so
+// nothing leaves the server.
+
+export const pdfReportTypes = ['balance-sheet', 'income-statement', 'budget-variance'] as const;
+export type PdfReportType = typeof pdfReportTypes[number];
+
+export interface PdfReport {
+  filename: string;
+  content: Buffer;
+}
+
+type Doc = PDFKit.PDFDocument;
+
+const PAGE_MARGIN = 50;
+const ROW_HEIGHT = 16;
+const LABEL_WIDTH = 220;
+const CHART_BAR_HEIGHT = 10;
+const CHART_LABEL_WIDTH = 130;
+const TEXT_COLOR = '#1f2937';
+const MUTED_COLOR = '#6b7280';
+const RULE_COLOR = '#d1d5db';
+const SERIES_COLORS = ['#2563eb', '#9ca3af'];
+const NEGATIVE_COLOR = '#dc2626';
+
+// pdfkit's built-in fonts only cover WinAnsi, which has no glyph for most
+// currency symbols (₹, ₽, ₺, ...) or for names outside Western European
+// scripts, so DejaVu Sans is embedded instead. It covers Latin, Greek,
+// Cyrillic, Hebrew, Arabic and the currency symbols block; CJK names still
+// print as empty boxes.
+const require = createRequire(import.meta.url);
+const FONT = 'Body';
+const BOLD_FONT = 'Body-Bold';
+const FONT_FILES = {
+  [FONT]: require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans.ttf'),
+  [BOLD_FONT]: require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf'),
+};
+
+const REPORT_TITLES: Record<PdfReportType, string> = {
+  'balance-sheet': 'Balance Sheet',
+  'income-statement': 'Income Statement',
+  'budget-variance': 'Budget Variance',
+};
+
+// Balance sheets are as of a day (YYYY-MM-DD), or the last day of a month
+// (YYYY-MM) but no later than today; the other reports cover a month
+// (YYYY-MM). Each defaults to the current day or month.
+export function parsePdfPeriod(type: PdfReportType, period: unknown, now: Date = new Date()): Date | undefined {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (type !== 'balance-sheet') {
+    return period === undefined ? new Date(today.getFullYear(), today.getMonth(), 1) : parseMonthParam(period);
+  }
+  if (period === undefined) return today;
+  const month = parseMonthParam(period);
+  if (!month) return parseDateParam(period);
+  return endOfMonth(month) < today ? endOfMonth(month) : today;
+}
+
+interface TableRow {
+  label: string;
+  values: (number | string | null)[];
+  bold?: boolean;
+  indent?: number;
+  // Draw a rule above the row, for subtotals
+  rule?: boolean;
+}
+
+interface ChartBar {
+  label: string;
+  // One value per series
+  values: number[];
+}
+
+function contentWidth(doc: Doc): number {
+  return doc.page.width - PAGE_MARGIN * 2;
+}
+
+function ensureSpace(doc: Doc, height: number) {
+  if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+    doc.addPage();
+  }
+}
+
+function formatCell(value: number | string | null, currency: string): string {
+  if (value === null) return '-';
+  return typeof value === 'number' ? formatMoney(value, currency) : value;
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '-' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+}
+
+function drawHeader(doc: Doc, title: string, subtitle: string, userName: string, generatedAt: Date, currency: string) {
+  doc.fillColor(TEXT_COLOR).font(BOLD_FONT).fontSize(20).text(title, PAGE_MARGIN, PAGE_MARGIN);
+  doc.font(FONT).fontSize(11).text(subtitle);
+  doc.moveDown(0.3);
+  doc.fillColor(MUTED_COLOR).fontSize(9)
+    .text(`Prepared for ${userName}`)
+    .text(`Generated ${formatDate(generatedAt)} - amounts in ${currency}`);
+  doc.moveDown(0.5);
+  doc.strokeColor(RULE_COLOR).lineWidth(1)
+    .moveTo(PAGE_MARGIN, doc.y).lineTo(PAGE_MARGIN + contentWidth(doc), doc.y).stroke();
+  doc.moveDown(1);
+}
+
+function drawSectionTitle(doc: Doc, title: string) {
+  ensureSpace(doc, ROW_HEIGHT * 3);
+  doc.moveDown(0.5);
+  doc.fillColor(TEXT_COLOR).font(BOLD_FONT).fontSize(13).text(title, PAGE_MARGIN, doc.y);
+  doc.moveDown(0.4);
+}
+
+// Label column followed by right-aligned value columns; the column headings
+// are repeated on every page the table runs onto
+function drawTable(doc: Doc, headings: string[], rows: TableRow[], currency: string) {
+  const valueWidth = (contentWidth(doc) - LABEL_WIDTH) / headings.length;
+  const drawHeadings = () => {
+    doc.fillColor(MUTED_COLOR).font(BOLD_FONT).fontSize(9);
+    headings.forEach((heading, index) => {
+      doc.text(heading, PAGE_MARGIN + LABEL_WIDTH + index * valueWidth, doc.y, { width: valueWidth, align: 'right', lineBreak: false });
+    });
+    doc.y += ROW_HEIGHT;
+  };
+
+  drawHeadings();
+  rows.forEach(row => {
+    if (doc.y + ROW_HEIGHT > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+      drawHeadings();
+    }
+    const y = doc.y;
+    if (row.rule) {
+      doc.strokeColor(RULE_COLOR).lineWidth(0.5)
+        .moveTo(PAGE_MARGIN, y - 3).lineTo(PAGE_MARGIN + contentWidth(doc), y - 3).stroke();
+    }
+    doc.fillColor(TEXT_COLOR).font(row.bold ? BOLD_FONT : FONT).fontSize(10);
+    const indent = (row.indent ?? 0) * 12;
+    doc.text(row.label, PAGE_MARGIN + indent, y, { width: LABEL_WIDTH - indent, ellipsis: true, lineBreak: false });
+    row.values.forEach((value, index) => {
+      doc.text(formatCell(value, currency), PAGE_MARGIN + LABEL_WIDTH + index * valueWidth, y, { width: valueWidth, align: 'right', lineBreak: false });
+    });
+    doc.y = y + ROW_HEIGHT;
+    doc.x = PAGE_MARGIN;
+  });
+}
+
+// Horizontal bars, one group per label with a bar for each series, scaled
+// to the largest absolute value; negative values are drawn in red
+function drawBarChart(doc: Doc, series: string[], bars: ChartBar[], currency: string) {
+  if (bars.length === 0) {
+    doc.fillColor(MUTED_COLOR).font(FONT).fontSize(10).text('Nothing to chart.', PAGE_MARGIN, doc.y);
+    doc.moveDown();
+    return;
+  }
+
+  const groupHeight = series.length * CHART_BAR_HEIGHT + 8;
+  const plotX = PAGE_MARGIN + CHART_LABEL_WIDTH;
+  const plotWidth = contentWidth(doc) - CHART_LABEL_WIDTH - 70;
+  const max = Math.max(...bars.flatMap(bar => bar.values.map(Math.abs)), 1);
+
+  ensureSpace(doc, groupHeight * Math.min(bars.length, 4) + 20);
+  if (series.length > 1) {
+    let legendX = plotX;
+    const legendY = doc.y;
+    series.forEach((name, index) => {
+      doc.rect(legendX, legendY + 1, 8, 8).fill(SERIES_COLORS[index % SERIES_COLORS.length]);
+      doc.fillColor(MUTED_COLOR).font(FONT).fontSize(8).text(name, legendX + 12, legendY, { lineBreak: false });
+      legendX += 24 + doc.widthOfString(name);
+    });
+    doc.y = legendY + 16;
+  }
+
+  bars.forEach(bar => {
+    ensureSpace(doc, groupHeight);
+    const top = doc.y;
+    doc.fillColor(TEXT_COLOR).font(FONT).fontSize(9)
+      .text(bar.label, PAGE_MARGIN, top + (groupHeight - 8) / 2 - 4, { width: CHART_LABEL_WIDTH - 8, ellipsis: true, lineBreak: false });
+    bar.values.forEach((value, index) => {
+      const y = top + index * CHART_BAR_HEIGHT;
+      const width = Math.max((Math.abs(value) / max) * plotWidth, value === 0 ? 0 : 1);
+      doc.rect(plotX, y, width, CHART_BAR_HEIGHT - 2).fill(value < 0 ? NEGATIVE_COLOR : SERIES_COLORS[index % SERIES_COLORS.length]);
+      doc.fillColor(MUTED_COLOR).fontSize(7)
+        .text(formatMoney(value, currency), plotX + width + 4, y, { lineBreak: false });
+    });
+    doc.y = top + groupHeight;
+  });
+  doc.x = PAGE_MARGIN;
+  doc.moveDown();
+}
+
+function balanceSheetRows(side: BalanceSheetSide, title: string): TableRow[] {
+  const rows: TableRow[] = [{ label: title, values: [], bold: true }];
+  ([['Current', side.current], ['Long-term', side.longTerm]] as const).forEach(([liquidity, section]) => {
+    if (section.groups.length === 0) return;
+    rows.push({ label: `${liquidity} ${title.toLowerCase()}`, values: [], bold: true, indent: 1 });
+    section.groups.forEach(group => {
+      rows.push({ label: group.name, values: [group.amount, group.priorAmount, group.change], indent: 2 });
+      group.items.forEach(item => {
+        rows.push({ label: item.name, values: [item.amount, item.priorAmount, item.change], indent: 3 });
+      });
+    });
+    rows.push({
+      label: `Total ${liquidity.toLowerCase()} ${title.toLowerCase()}`,
+      values: [section.amount, section.priorAmount, section.change],
+      bold: true,
+      indent: 1,
+      rule: true,
+    });
+  });
+  rows.push({ label: `Total ${title.toLowerCase()}`, values: [side.amount, side.priorAmount, side.change], bold: true, rule: true });
+  return rows;
+}
+
+function renderBalanceSheet(doc: Doc, sheet: BalanceSheet) {
+  const groups = (side: BalanceSheetSide) => [...side.current.groups, ...side.longTerm.groups];
+
+  drawSectionTitle(doc, 'Assets by category');
+  drawBarChart(doc, [sheet.asOf, sheet.compareTo],
+    groups(sheet.assets).map(group => ({ label: group.name, values: [group.amount, group.priorAmount] })), sheet.currency);
+  drawSectionTitle(doc, 'Liabilities by type');
+  drawBarChart(doc, [sheet.asOf, sheet.compareTo],
+    groups(sheet.liabilities).map(group => ({ label: group.name, values: [group.amount, group.priorAmount] })), sheet.currency);
+
+  drawSectionTitle(doc, 'Statement');
+  drawTable(doc, [sheet.asOf, sheet.compareTo, 'Change'], [
+    ...balanceSheetRows(sheet.assets, 'Assets'),
+    { label: '', values: [] },
+    ...balanceSheetRows(sheet.liabilities, 'Liabilities'),
+    { label: '', values: [] },
+    { label: 'Equity (net worth)', values: [sheet.equity.amount, sheet.equity.priorAmount, sheet.equity.change], bold: true, rule: true },
+    { label: 'Change in equity', values: ['', '', formatPercent(sheet.equity.changePercent)] },
+  ], sheet.currency);
+}
+
+function renderIncomeStatement(doc: Doc, statement: IncomeStatement) {
+  drawSectionTitle(doc, 'Income and expenses');
+  drawBarChart(doc, ['Amount'], [
+    { label: 'Income', values: [statement.income.total] },
+    { label: 'Expenses', values: [statement.expenses.total] },
+    { label: 'Net income', values: [statement.netIncome] },
+  ], statement.currency);
+  drawSectionTitle(doc, 'Expenses by category');
+  drawBarChart(doc, ['Amount'],
+    statement.expenses.byCategory.map(line => ({ label: line.category, values: [line.amount] })), statement.currency);
+
+  drawSectionTitle(doc, 'Statement');
+  const rows: TableRow[] = [{ label: 'Income', values: [], bold: true }];
+  statement.income.byType.forEach(section => {
+    rows.push({ label: section.type === 'active' ? 'Active income' : 'Passive income', values: [section.total], indent: 1 });
+    section.sources.forEach(line => {
+      rows.push({ label: `${line.source} (${line.category})`, values: [line.amount], indent: 2 });
+    });
+  });
+  rows.push({ label: 'Total income', values: [statement.income.total], bold: true, rule: true });
+  rows.push({ label: '', values: [] });
+  rows.push({ label: 'Expenses', values: [], bold: true });
+  statement.expenses.byCategory.forEach(line => {
+    rows.push({ label: line.category, values: [line.amount], indent: 1 });
+  });
+  rows.push({ label: 'Total expenses', values: [statement.expenses.total], bold: true, rule: true });
+  rows.push({ label: '', values: [] });
+  rows.push({ label: 'Net income', values: [statement.netIncome], bold: true, rule: true });
+  rows.push({
+    label: 'Savings rate',
+    values: [statement.savingsRate === null ? null : `${statement.savingsRate.toFixed(1)}%`],
+  });
+  drawTable(doc, [statement.period], rows, statement.currency);
+}
+
+function renderBudgetVariance(doc: Doc, report: BudgetReport) {
+  drawSectionTitle(doc, 'Budget and spending by category');
+  drawBarChart(doc, ['Available', 'Spent'], [
+    ...report.lines.map(line => ({ label: line.category, values: [line.available, line.spent] })),
+    ...report.unbudgeted.map(line => ({ label: `${line.category} (no budget)`, values: [0, line.spent] })),
+  ], report.currency);
+
+  drawSectionTitle(doc, 'Variance');
+  drawTable(doc, ['Available', 'Spent', 'Remaining', 'Used'], [
+    ...report.lines.map(line => ({
+      label: line.overBudget ? `${line.category} (over budget)` : line.category,
+      values: [line.available, line.spent, line.remaining, `${line.percentUsed.toFixed(0)}%`],
+      bold: line.overBudget,
+    })),
+    ...report.unbudgeted.map(line => ({
+      label: `${line.category} (no budget)`,
+      values: [null, line.spent, null, null],
+    })),
+    {
+      label: 'Total budgeted',
+      values: [report.totals.available, report.totals.spent, report.totals.remaining, `${report.totals.percentUsed.toFixed(0)}%`],
+      bold: true,
+      rule: true,
+    },
+  ], report.currency);
+}
+
+// Page numbers and any currencies that could not be converted, added once
+// the page count is known
+function drawFooters(doc: Doc, missingCurrencies: string[]) {
+  const pages = doc.bufferedPageRange();
+  for (let index = 0; index < pages.count; index++) {
+    doc.switchToPage(pages.start + index);
+    // Writing inside the bottom margin would otherwise start a new page
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    const y = doc.page.height - PAGE_MARGIN + 15;
+    doc.fillColor(MUTED_COLOR).font(FONT).fontSize(8);
+    if (missingCurrencies.length > 0) {
+      doc.text(`Amounts in ${missingCurrencies.join(', ')} are left out (no exchange rate).`,
+        PAGE_MARGIN, y, { width: contentWidth(doc), lineBreak: false });
+    }
+    doc.text(`Page ${index + 1} of ${pages.count}`, PAGE_MARGIN, y, { width: contentWidth(doc), align: 'right', lineBreak: false });
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+// Collects the document's output, which is complete once it has been ended
+function collectOutput(doc: Doc): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+}
+
+interface LoadedReport {
+  periodKey: string;
+  subtitle: string;
+  currency: string;
+  missingCurrencies: string[];
+  render: (doc: Doc) => void;
+}
+
+async function loadReport(storage: IStorage, userId: number, type: PdfReportType, period: Date): Promise<LoadedReport> {
+  if (type === 'balance-sheet') {
+    const sheet = await getBalanceSheet(storage, userId, { asOf: period, compareTo: sameDayLastYear(period) });
+    return {
+      periodKey: sheet.asOf,
+      subtitle: `As of ${sheet.asOf}, compared with ${sheet.compareTo}`,
+      currency: sheet.currency,
+      missingCurrencies: sheet.missingCurrencies,
+      render: doc => renderBalanceSheet(doc, sheet),
+    };
+  }
+  if (type === 'income-statement') {
+    const statement = await getIncomeStatement(storage, userId, period);
+    return {
+      periodKey: statement.period,
+      subtitle: `${statement.from} to ${statement.to}`,
+      currency: statement.currency,
+      missingCurrencies: statement.missingCurrencies,
+      render: doc => renderIncomeStatement(doc, statement),
+    };
+  }
+  const report = await getBudgetReport(storage, userId, period);
+  return {
+    periodKey: report.month,
+    subtitle: `Month of ${report.month}`,
+    currency: report.currency,
+    missingCurrencies: report.missingCurrencies,
+    render: doc => renderBudgetVariance(doc, report),
+  };
+}
+
+// `period` is the date or month from parsePdfPeriod
+export async function buildPdfReport(storage: IStorage, userId: number, type: PdfReportType, period: Date): Promise<PdfReport> {
+  const [user, report] = await Promise.all([
+    storage.getUser(userId),
+    loadReport(storage, userId, type, period),
+  ]);
+  const userName = user?.googleName || user?.username || 'Unknown user';
+  const title = REPORT_TITLES[type];
+
+  const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, bufferPages: true, info: { Title: title, Author: userName } });
+  Object.entries(FONT_FILES).forEach(([name, file]) => doc.registerFont(name, file));
+  doc.font(FONT);
+  const content = collectOutput(doc);
+  drawHeader(doc, title, report.subtitle, userName, new Date(), report.currency);
+  report.render(doc);
+  drawFooters(doc, report.missingCurrencies);
+  doc.end();
+
+  return { filename: `${type}-${report.periodKey}.pdf`, content: await content };
+}
@@ -0,0 +1,77 @@
+import { addDays } from './dates';
+
+export type Frequency = 'one-time' | 'weekly' | 'bi-weekly' | 'monthly' | 'quarterly' | 'annually';
+
+// Schedule shared by incomes and recurring expenses
+export interface RecurrenceRule {
+  frequency: Frequency;
+  startDate: Date;
+  endDate?: Date;
+  // Day of the month payments fall on; defaults to the start date's day
+  payDay?: number;
+}
+
+const MONTH_STEPS: Partial<Record<Frequency, number>> = {
+  'monthly': 1,
+  'quarterly': 3,
+  'annually': 12,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date in the given month on the pay day, clamped to the month's last day
+// so a pay day of 31 falls on the 30th or 28th/29th in shorter months
+function payDateInMonth(year: number, month: number, payDay: number): Date {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(payDay, lastDay));
+}
+
+// Every date the rule falls on between from and to (inclusive), anchored on
+// its start date and stopping after its end date
+export function projectOccurrences(rule: RecurrenceRule, from: Date, to: Date): Date[] {
+  const start = rule.startDate;
+  const last = rule.endDate && rule.endDate < to ? rule.endDate : to;
+  const dates: Date[] = [];
+
+  const push = (date: Date) => {
+    if (date >= start && date >= from && date <= last) dates.push(date);
+  };
+
+  if (rule.frequency === 'one-time') {
+    push(start);
+    return dates;
+  }
+
+  if (rule.frequency === 'weekly' || rule.frequency === 'bi-weekly') {
+    const step = rule.frequency === 'weekly' ? 7 : 14;
+    // Jump straight to the first occurrence on or after `from`
+    const skipped = from > start ? Math.floor((from.getTime() - start.getTime()) / (step * DAY_MS)) : 0;
+    for (let date = addDays(start, skipped * step); date <= last; date = addDays(date, step)) {
+      push(date);
+    }
+    return dates;
+  }
+
+  const step = MONTH_STEPS[rule.frequency]!;
+  const payDay = rule.payDay ?? start.getDate();
+  const first = from > start ? from : start;
+  // Start from the first month in step with the start date that could fall inside the range
+  const monthsFromStart = (first.getFullYear() - start.getFullYear()) * 12 + first.getMonth() - start.getMonth();
+  let offset = Math.max(0, Math.floor(monthsFromStart / step) * step);
+
+  while (true) {
+    const date = payDateInMonth(start.getFullYear(), start.getMonth() + offset, payDay);
+    if (date > last) break;
+    push(date);
+    offset += step;
+  }
+
+  return dates;
+}
+
+// First occurrence strictly after the given date, if the rule has one
+export function nextOccurrenceAfter(rule: RecurrenceRule, date: Date): Date | undefined {
+  const from = addDays(date, 1);
+  // Annual rules recur at most a year apart, so look a little further than that
+  return projectOccurrences(rule, from, addDays(from, 400))[0];
+}
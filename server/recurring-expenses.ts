@@ -0,0 +1,153 @@
+import type { Expense, RecurringExpense } from '@shared/schema';
+import type { IStorage } from './storage';
+import { addDays, formatDate } from './dates';
+import { projectOccurrences, nextOccurrenceAfter, type RecurrenceRule } from './recurrence';
+
+export interface UpcomingCharge {
+  recurringExpenseId: string;
+  description: string;
+  category: string;
+  amount: number;
+  currency?: string;
+  dueDate: string;
+}
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+export function toRecurrenceRule(recurringExpense: RecurringExpense): RecurrenceRule {
+  return {
+    frequency: recurringExpense.cadence,
+    startDate: recurringExpense.startDate,
+    endDate: recurringExpense.endDate,
+    payDay: recurringExpense.payDay,
+  };
+}
+
+export function today(): Date {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+// First due date on or after the given date, if the schedule has one left
+export function firstDueDateFrom(rule: RecurrenceRule, date: Date): Date | undefined {
+  return nextOccurrenceAfter(rule, addDays(date, -1));
+}
+
+// Create an expense row for every occurrence that has come due, advancing
+// the template past each one in the same transaction as its expense
+export async function materializeRecurringExpense(
+  storage: IStorage,
+  recurringExpense: RecurringExpense,
+  asOf: Date = today()
+): Promise<Expense[]> {
+  const rule = toRecurrenceRule(recurringExpense);
+  const created: Expense[] = [];
+  let dueDate = recurringExpense.nextDueDate;
+
+  while (recurringExpense.status === 'active' && dueDate <= asOf) {
+    // The end date was moved before the next occurrence
+    if (recurringExpense.endDate && dueDate > recurringExpense.endDate) {
+      await storage.advanceRecurringExpense(recurringExpense.id, dueDate, dueDate, 'ended');
+      break;
+    }
+
+    const next = nextOccurrenceAfter(rule, dueDate);
+    const expense = await storage.chargeRecurringExpense(
+      recurringExpense.id,
+      dueDate,
+      next ?? dueDate,
+      next ? 'active' : 'ended',
+      {
+        userId: recurringExpense.userId,
+        category: recurringExpense.category,
+        amount: recurringExpense.amount,
+        currency: recurringExpense.currency,
+        description: recurringExpense.description,
+        date: dueDate,
+        notes: recurringExpense.notes,
+        recurringExpenseId: recurringExpense.id,
+      }
+    );
+    // Another run already generated this occurrence
+    if (!expense) break;
+    created.push(expense);
+
+    if (!next) break;
+    dueDate = next;
+  }
+
+  return created;
+}
+
+export async function generateDueExpenses(storage: IStorage, asOf: Date = today()): Promise<number> {
+  const due = await storage.getDueRecurringExpenses(asOf);
+  let count = 0;
+
+  for (const recurringExpense of due) {
+    try {
+      const created = await materializeRecurringExpense(storage, recurringExpense, asOf);
+      count += created.length;
+    } catch (error) {
+      console.error('Error generating recurring expense:', recurringExpense.id, error);
+    }
+  }
+
+  return count;
+}
+
+// Run the generator now and then every hour; returns a function that stops it
+export function startRecurringExpenseScheduler(storage: IStorage, intervalMs = SCHEDULER_INTERVAL_MS): () => void {
+  const run = async () => {
+    try {
+      const count = await generateDueExpenses(storage);
+      if (count > 0) {
+        console.log(`Recurring expense scheduler generated ${count} expense(s)`);
+      }
+    } catch (error) {
+      console.error('Recurring expense scheduler error:', error);
+    }
+  };
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+// Move past the next occurrence without charging it
+export async function skipNextOccurrence(storage: IStorage, recurringExpense: RecurringExpense): Promise<boolean> {
+  const next = nextOccurrenceAfter(toRecurrenceRule(recurringExpense), recurringExpense.nextDueDate);
+  return storage.advanceRecurringExpense(
+    recurringExpense.id,
+    recurringExpense.nextDueDate,
+    next ?? recurringExpense.nextDueDate,
+    next ? recurringExpense.status : 'ended'
+  );
+}
+
+// Charges due from active templates within the next `days` days
+export function getUpcomingCharges(recurringExpenses: RecurringExpense[], days: number, from: Date = today()): UpcomingCharge[] {
+  const to = addDays(from, days);
+  const charges: UpcomingCharge[] = [];
+
+  recurringExpenses
+    .filter(recurringExpense => recurringExpense.status === 'active')
+    .forEach(recurringExpense => {
+      const start = recurringExpense.nextDueDate > from ? recurringExpense.nextDueDate : from;
+      projectOccurrences(toRecurrenceRule(recurringExpense), start, to)
+        // Occurrences before the due date were already charged or skipped
+        .filter(date => date >= recurringExpense.nextDueDate)
+        .forEach(date => {
+          charges.push({
+            recurringExpenseId: recurringExpense.id,
+            description: recurringExpense.description,
+            category: recurringExpense.category,
+            amount: recurringExpense.amount,
+            currency: recurringExpense.currency,
+            dueDate: formatDate(date),
+          });
+        });
+    });
+
+  return charges.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
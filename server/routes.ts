@@ -1,12 +1,35 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { Router } from "express";
 import { z } from "zod";
-import { incomeSchema, expenseSchema, assetSchema, liabilitySchema, goalSchema } from "@shared/schema";
-import { authenticateToken, AuthRequest, hashPassword, login } from "./auth";
+import { incomeSchema, incomeReceiptSchema, expenseSchema, recurringExpenseSchema, budgetSchema, assetSchema, liabilitySchema, goalSchema, goalContributionSchema, goalAssetSchema, currencyCodeSchema, assetValuationSchema, liabilityValuationSchema, aiPendingActionSchema, type AIPendingAction, type Goal, type GoalAsset } from "@shared/schema";
+import { sumMoney } from "@shared/money";
+import { authenticateToken, authenticateStreamToken, generateStreamToken, AuthRequest, hashPassword, login } from "./auth";
 import { generateToken } from "./auth";
-import { generateFinancialAdvice } from './ai-assistant';
+import { generateFinancialAdvice, aiAssistantRequestSchema } from './ai-assistant';
+import { getNetWorthHistory, refreshNetWorthSnapshot, netWorthIntervals, type NetWorthInterval } from './net-worth';
+import { getExpectedPayments, isExpectedPaymentDate } from './income-schedule';
+import { materializeRecurringExpense, skipNextOccurrence, getUpcomingCharges, firstDueDateFrom, toRecurrenceRule, today } from './recurring-expenses';
+import { getBudgetReport } from './budgets';
+import { projectGoal } from './goal-projection';
+import { CurrencyConverter, exchangeRateInputSchema, exchangeRateCsvImportSchema, parseExchangeRateCsv } from './currency';
+import { importCsv, csvImportRequestSchema } from './csv-import';
+import { importOfx, ofxImportRequestSchema } from './ofx-import';
+import { importBundle, bundleImportRequestSchema } from './bundle-import';
+import { buildExportBundle, exportCsvZip, exportXlsx, exportFormats, type ExportFormat } from './export';
+import { parseDateParam, parseOptionalDateParam, parseMonthParam, addDays, formatDate } from './dates';
+import { loadConvertedFinancialData, buildFinancialSummary, getFinancialSummary, getDefaultSummaryWindow, parseSummaryWindow } from './summary';
+import { getLLMProvider } from './llm';
+import { aiChatRequestSchema, aiChatStreamRequestSchema, aiConversationCreateSchema, buildAdvisorMessages, buildAssistantSystemPrompt, sendConversationMessage, conversationTitleFrom, DEFAULT_CONVERSATION_TITLE } from './ai-chat';
+import { runToolLoop, executePendingAction } from './ai-tools';
+import { buildFinancialContext } from './financial-context';
+import { planDebtPayoff, debtPayoffRequestSchema, DebtPayoffBudgetError } from './debt-payoff';
+import { getExpenseReport, expenseReportQuerySchema } from './expense-report';
+import { getIncomeStatement, getCashFlowStatement } from './financial-statements';
+import { getBalanceSheet, balanceSheetQuerySchema } from './balance-sheet';
+import { buildPdfReport, parsePdfPeriod, pdfReportTypes, type PdfReportType } from './pdf-reports';
+import { incomeListQuerySchema, expenseListQuerySchema, assetListQuerySchema, liabilityListQuerySchema, goalListQuerySchema } from './list-queries';
 import * as dotenv from 'dotenv';
 import { google } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
@@ -200,7 +223,9 @@ router.post("/auth/login", async (req, res) => {
   }
 });
 
-// Protected routes
+// Protected routes. The AI chat stream may also be opened with a stream
+// token, since EventSource cannot send the Authorization header.
+router.use('/ai/chat/stream', authenticateStreamToken);
 router.use(authenticateToken);
 
 // User routes
@@ -217,13 +242,55 @@ router.get("/users/me", async (req: AuthRequest, res) => {
   }
 });
 
+router.patch("/users/me", async (req: AuthRequest, res) => {
+  try {
+    const { baseCurrency } = z.object({ baseCurrency: currencyCodeSchema }).parse(req.body);
+    await storage.updateUser(req.user!.id, { baseCurrency });
+    // Snapshots already taken stay in the currency they were recorded in
+    await refreshNetWorthSnapshot(storage, req.user!.id);
+
+    const user = await storage.getUser(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    const { password, ...userWithoutPassword } = user;
+    res.json(userWithoutPassword);
+  } catch (error) {
+    console.error("Error updating user:", error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  }
+});
+
 // Income routes
 router.get("/incomes", async (req: AuthRequest, res) => {
   try {
-    const incomes = await storage.getAllIncomes(req.user!.id);
-    res.json(incomes);
+    const query = incomeListQuerySchema.parse(req.query);
+    const page = await storage.listIncomes(req.user!.id, query);
+    res.json(query.limit === undefined ? page.items : page);
   } catch (error) {
-    res.status(500).json({ error: "Failed to get incomes" });
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to get incomes" });
+    }
+  }
+});
+
+router.get("/incomes/schedule", async (req: AuthRequest, res) => {
+  try {
+    const window = parseSummaryWindow(req.query.from, req.query.to);
+    if (!window) {
+      return res.status(400).json({ error: "Invalid date range, expected from/to as YYYY-MM-DD" });
+    }
+    const payments = await getExpectedPayments(storage, req.user!.id, window.from, addDays(window.to, -1));
+    res.json(payments);
+  } catch (error) {
+    console.error("Error projecting income schedule:", error);
+    res.status(500).json({ error: "Failed to get income schedule" });
   }
 });
 
@@ -243,9 +310,16 @@ router.post("/incomes", async (req: AuthRequest, res) => {
   try {
     console.log('POST /incomes - Request body:', req.body);
     console.log('POST /incomes - User ID:', req.user?.id);
+    const startDate = parseOptionalDateParam(req.body.startDate);
+    const endDate = parseOptionalDateParam(req.body.endDate);
+    if (startDate === null || endDate === null) {
+      return res.status(400).json({ error: "Invalid date, expected YYYY-MM-DD" });
+    }
     const validatedData = incomeSchema.omit({ id: true, createdAt: true }).parse({
       ...req.body,
       userId: req.user!.id,
+      startDate: startDate ?? today(),
+      endDate,
     });
     console.log('POST /incomes - Validated data:', validatedData);
     const income = await storage.createIncome(validatedData);
@@ -266,32 +340,52 @@ router.put("/incomes", authenticateToken, async (req: AuthRequest, res) => {
     console.log('PUT /incomes - Request method:', req.method);
     console.log('PUT /incomes - Request body:', req.body);
     console.log('PUT /incomes - User ID:', req.user?.id);
-    const incomes = req.body;
     const userId = req.user!.id;
+    const body = z.array(z.record(z.unknown())).safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ error: "Expected an array of income objects" });
+    }
+    const incomes = body.data;
+
+    // Every income is checked before any is written, so a bad entry does not
+    // leave the list half synced
+    const changes = [];
+    for (const income of incomes) {
+      const startDate = parseOptionalDateParam(income.startDate);
+      const endDate = parseOptionalDateParam(income.endDate);
+      if (startDate === null || endDate === null) {
+        return res.status(400).json({ error: "Invalid date, expected YYYY-MM-DD" });
+      }
+      const fields = {
+        source: income.source,
+        category: income.category,
+        amount: income.amount === undefined ? undefined : Number(income.amount),
+        currency: income.currency,
+        type: income.type,
+        frequency: income.frequency,
+        payDay: income.payDay ?? undefined,
+        notes: income.notes ?? undefined,
+      };
+      changes.push(income.id
+        ? {
+            id: String(income.id),
+            update: incomeSchema.omit({ id: true, userId: true, createdAt: true, externalId: true }).partial().parse({
+              ...fields,
+              startDate,
+              // Sending endDate as null clears it, leaving it out keeps it
+              ...('endDate' in income && { endDate }),
+            }),
+          }
+        : { create: incomeSchema.omit({ id: true, createdAt: true }).parse({ ...fields, userId, startDate: startDate ?? today(), endDate }) });
+    }
 
-    await Promise.all(incomes.map(async (income: any) => {
-      console.log('Processing income:', income);
-      if (income.id) {
-        console.log('Updating income:', income.id);
-        await storage.updateIncome(income.id, {
-          source: income.source,
-          category: income.category,
-          amount: income.amount,
-          type: income.type,
-          frequency: income.frequency,
-          notes: income.notes
-        }, userId);
+    await Promise.all(changes.map(async (change) => {
+      if (change.update) {
+        console.log('Updating income:', change.id);
+        await storage.updateIncome(change.id, change.update, userId);
       } else {
         console.log('Creating new income via PUT (should be using POST)');
-        await storage.createIncome({
-          userId,
-          source: income.source,
-          category: income.category,
-          amount: income.amount,
-          type: income.type,
-          frequency: income.frequency,
-          notes: income.notes
-        });
+        await storage.createIncome(change.create!);
       }
     }));
 
@@ -300,7 +394,47 @@ router.put("/incomes", authenticateToken, async (req: AuthRequest, res) => {
     res.json(updatedIncomes);
   } catch (error) {
     console.error("Error syncing incomes:", error);
-    res.status(500).json({ error: "Failed to sync incomes" });
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to sync incomes" });
+    }
+  }
+});
+
+router.post("/incomes/:id/receipts", async (req: AuthRequest, res) => {
+  try {
+    const income = await storage.getIncome(req.params.id, req.user!.id);
+    if (!income) {
+      return res.status(404).json({ error: "Income not found" });
+    }
+
+    const expectedDate = parseDateParam(req.body.expectedDate);
+    const receivedDate = req.body.receivedDate === undefined ? expectedDate : parseDateParam(req.body.receivedDate);
+    if (!expectedDate || !receivedDate) {
+      return res.status(400).json({ error: "Invalid date, expected YYYY-MM-DD" });
+    }
+    if (!isExpectedPaymentDate(income, expectedDate)) {
+      return res.status(400).json({ error: "No payment is expected for this income on that date" });
+    }
+
+    const validatedData = incomeReceiptSchema.omit({ id: true, createdAt: true }).parse({
+      incomeId: income.id,
+      userId: req.user!.id,
+      expectedDate,
+      receivedDate,
+      amount: req.body.amount === undefined ? income.amount : Number(req.body.amount),
+      notes: req.body.notes,
+    });
+    const receipt = await storage.recordIncomeReceipt(validatedData);
+    res.json(receipt);
+  } catch (error) {
+    console.error("Error recording income receipt:", error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to record income receipt" });
+    }
   }
 });
 
@@ -316,10 +450,15 @@ router.delete("/incomes/:id", async (req: AuthRequest, res) => {
 // Expense routes
 router.get("/expenses", async (req: AuthRequest, res) => {
   try {
-    const expenses = await storage.getAllExpenses(req.user!.id);
-    res.json(expenses);
+    const query = expenseListQuerySchema.parse(req.query);
+    const page = await storage.listExpenses(req.user!.id, query);
+    res.json(query.limit === undefined ? page.items : page);
   } catch (error) {
-    res.status(500).json({ error: "Failed to get expenses" });
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to get expenses" });
+    }
   }
 });
 
@@ -370,6 +509,7 @@ router.put("/expenses", authenticateToken, async (req: AuthRequest, res) => {
       const expenseData = {
         category: expense.category,
         amount: expense.amount,
+        currency: expense.currency,
         description: expense.description,
         date: new Date(expense.date)
       };
@@ -404,13 +544,326 @@ router.delete("/expenses/:id", async (req: AuthRequest, res) => {
   }
 });
 
+// Recurring expense routes
+router.get("/recurring-expenses", async (req: AuthRequest, res) => {
+  try {
+    const recurringExpenses = await storage.getAllRecurringExpenses(req.user!.id);
+    res.json(recurringExpenses);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get recurring expenses" });
+  }
+});
+
+router.get("/recurring-expenses/upcoming", async (req: AuthRequest, res) => {
+  try {
+    const days = req.query.days === undefined ? 30 : Number(req.query.days);
+    if (!Number.isInteger(days) || days < 0 || days > 366) {
+      return res.status(400).json({ error: "days must be a whole number between 0 and 366" });
+    }
+    const recurringExpenses = await storage.getAllRecurringExpenses(req.user!.id);
+    res.json(getUpcomingCharges(recurringExpenses, days));
+  } catch (error) {
+    console.error("Error getting upcoming charges:", error);
+    res.status(500).json({ error: "Failed to get upcoming charges" });
+  }
+});
+
+router.get("/recurring-expenses/:id", async (req: AuthRequest, res) => {
+  try {
+    const recurringExpense = await storage.getRecurringExpense(req.params.id, req.user!.id);
+    if (!recurringExpense) {
+      return res.status(404).json({ error: "Recurring expense not found" });
+    }
+    res.json(recurringExpense);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get recurring expense" });
+  }
+});
+
+router.post("/recurring-expenses", async (req: AuthRequest, res) => {
+  try {
+    console.log('POST /recurring-expenses - Request body:', req.body);
+    const startDate = parseOptionalDateParam(req.body.startDate);
+    const endDate = parseOptionalDateParam(req.body.endDate);
+    if (startDate === null || endDate === null) {
+      return res.status(400).json({ error: "Invalid date, expected YYYY-MM-DD" });
+    }
+    const scheduleData = recurringExpenseSchema.omit({ id: true, createdAt: true, nextDueDate: true, status: true }).parse({
+      ...req.body,
+      userId: req.user!.id,
+      amount: Number(req.body.amount),
+      startDate: startDate ?? today(),
+      endDate,
+    });
+
+    const nextDueDate = firstDueDateFrom({
+      frequency: scheduleData.cadence,
+      startDate: scheduleData.startDate,
+      endDate: scheduleData.endDate,
+      payDay: scheduleData.payDay,
+    }, scheduleData.startDate);
+    if (!nextDueDate) {
+      return res.status(400).json({ error: "Schedule has no occurrences before its end date" });
+    }
+
+    const recurringExpense = await storage.createRecurringExpense({ ...scheduleData, nextDueDate, status: 'active' });
+    // Back-dated templates catch up straight away instead of waiting for the scheduler
+    await materializeRecurringExpense(storage, recurringExpense);
+
+    res.json(await storage.getRecurringExpense(recurringExpense.id, req.user!.id));
+  } catch (error) {
+    console.error("Error creating recurring expense:", error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to create recurring expense" });
+    }
+  }
+});
+
+router.put("/recurring-expenses/:id", async (req: AuthRequest, res) => {
+  try {
+    const existing = await storage.getRecurringExpense(req.params.id, req.user!.id);
+    if (!existing) {
+      return res.status(404).json({ error: "Recurring expense not found" });
+    }
+    const endDate = parseOptionalDateParam(req.body.endDate);
+    if (endDate === null) {
+      return res.status(400).json({ error: "Invalid date, expected YYYY-MM-DD" });
+    }
+
+    const validatedData = recurringExpenseSchema.pick({
+      category: true,
+      amount: true,
+      currency: true,
+      description: true,
+      payDay: true,
+      endDate: true,
+      notes: true,
+    }).partial().parse({
+      ...req.body,
+      amount: req.body.amount === undefined ? undefined : Number(req.body.amount),
+      // Sending endDate as null clears it, leaving it out keeps it
+      ...('endDate' in req.body && { endDate }),
+    });
+
+    // A new pay day or end date moves the next occurrence. Occurrences up to
+    // the current due date that have not been charged yet still count, as do
+    // those from today onwards; an ended template stays ended.
+    const scheduleChanged = 'endDate' in validatedData || validatedData.payDay !== undefined;
+    if (scheduleChanged && existing.status !== 'ended') {
+      const rule = toRecurrenceRule({ ...existing, ...validatedData });
+      const nextDueDate = firstDueDateFrom(rule, existing.nextDueDate < today() ? existing.nextDueDate : today());
+      await storage.updateRecurringExpense(req.params.id, {
+        ...validatedData,
+        nextDueDate: nextDueDate ?? existing.nextDueDate,
+        status: nextDueDate ? existing.status : 'ended',
+      }, req.user!.id);
+    } else {
+      await storage.updateRecurringExpense(req.params.id, validatedData, req.user!.id);
+    }
+
+    const recurringExpense = await storage.getRecurringExpense(req.params.id, req.user!.id);
+    // A due date moved into the past is charged straight away, as on create
+    if (recurringExpense) {
+      await materializeRecurringExpense(storage, recurringExpense);
+    }
+    res.json(await storage.getRecurringExpense(req.params.id, req.user!.id));
+  } catch (error) {
+    console.error("Error updating recurring expense:", error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to update recurring expense" });
+    }
+  }
+});
+
+router.post("/recurring-expenses/:id/pause", async (req: AuthRequest, res) => {
+  try {
+    const recurringExpense = await storage.getRecurringExpense(req.params.id, req.user!.id);
+    if (!recurringExpense) {
+      return res.status(404).json({ error: "Recurring expense not found" });
+    }
+    if (recurringExpense.status !== 'active') {
+      return res.status(400).json({ error: `Recurring expense is ${recurringExpense.status}` });
+    }
+    await storage.updateRecurringExpense(req.params.id, { status: 'paused' }, req.user!.id);
+    res.json(await storage.getRecurringExpense(req.params.id, req.user!.id));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to pause recurring expense" });
+  }
+});
+
+router.post("/recurring-expenses/:id/resume", async (req: AuthRequest, res) => {
+  try {
+    const recurringExpense = await storage.getRecurringExpense(req.params.id, req.user!.id);
+    if (!recurringExpense) {
+      return res.status(404).json({ error: "Recurring expense not found" });
+    }
+    if (recurringExpense.status !== 'paused') {
+      return res.status(400).json({ error: `Recurring expense is ${recurringExpense.status}` });
+    }
+
+    // Occurrences missed while paused are not charged
+    const from = recurringExpense.nextDueDate > today() ? recurringExpense.nextDueDate : today();
+    const nextDueDate = firstDueDateFrom(toRecurrenceRule(recurringExpense), from);
+    await storage.updateRecurringExpense(req.params.id, nextDueDate
+      ? { status: 'active', nextDueDate }
+      : { status: 'ended' }, req.user!.id);
+    res.json(await storage.getRecurringExpense(req.params.id, req.user!.id));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to resume recurring expense" });
+  }
+});
+
+router.post("/recurring-expenses/:id/skip", async (req: AuthRequest, res) => {
+  try {
+    const recurringExpense = await storage.getRecurringExpense(req.params.id, req.user!.id);
+    if (!recurringExpense) {
+      return res.status(404).json({ error: "Recurring expense not found" });
+    }
+    if (recurringExpense.status === 'ended') {
+      return res.status(400).json({ error: "Recurring expense has ended" });
+    }
+    const skipped = await skipNextOccurrence(storage, recurringExpense);
+    if (!skipped) {
+      return res.status(409).json({ error: "Occurrence was already generated, try again" });
+    }
+    res.json(await storage.getRecurringExpense(req.params.id, req.user!.id));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to skip occurrence" });
+  }
+});
+
+router.post("/recurring-expenses/:id/end", async (req: AuthRequest, res) => {
+  try {
+    const recurringExpense = await storage.getRecurringExpense(req.params.id, req.user!.id);
+    if (!recurringExpense) {
+      return res.status(404).json({ error: "Recurring expense not found" });
+    }
+    await storage.updateRecurringExpense(req.params.id, { status: 'ended', endDate: today() }, req.user!.id);
+    res.json(await storage.getRecurringExpense(req.params.id, req.user!.id));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to end recurring expense" });
+  }
+});
+
+router.delete("/recurring-expenses/:id", async (req: AuthRequest, res) => {
+  try {
+    await storage.deleteRecurringExpense(req.params.id, req.user!.id);
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: "Failed to delete recurring expense" });
+  }
+});
+
+// Budget routes
+router.get("/budgets", async (req: AuthRequest, res) => {
+  try {
+    if (req.query.month !== undefined && !parseMonthParam(req.query.month)) {
+      return res.status(400).json({ error: "Invalid month, expected YYYY-MM" });
+    }
+    const budgets = await storage.getBudgets(req.user!.id, req.query.month as string | undefined);
+    res.json(budgets);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get budgets" });
+  }
+});
+
+router.get("/budgets/:month/report", async (req: AuthRequest, res) => {
+  try {
+    const month = parseMonthParam(req.params.month);
+    if (!month) {
+      return res.status(400).json({ error: "Invalid month, expected YYYY-MM" });
+    }
+    const report = await getBudgetReport(storage, req.user!.id, month);
+    res.json(report);
+  } catch (error) {
+    console.error("Error building budget report:", error);
+    res.status(500).json({ error: "Failed to get budget report" });
+  }
+});
+
+router.get("/budgets/:id", async (req: AuthRequest, res) => {
+  try {
+    const budget = await storage.getBudget(req.params.id, req.user!.id);
+    if (!budget) {
+      return res.status(404).json({ error: "Budget not found" });
+    }
+    res.json(budget);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get budget" });
+  }
+});
+
+router.post("/budgets", async (req: AuthRequest, res) => {
+  try {
+    const validatedData = budgetSchema.omit({ id: true, createdAt: true }).parse({
+      ...req.body,
+      userId: req.user!.id,
+      limitAmount: Number(req.body.limitAmount),
+      rollover: req.body.rollover ?? false,
+    });
+    const budget = await storage.createBudget(validatedData);
+    res.json(budget);
+  } catch (error) {
+    console.error("Error creating budget:", error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else if ((error as { code?: string }).code === '23505') {
+      res.status(409).json({ error: "A budget for this category and month already exists" });
+    } else {
+      res.status(500).json({ error: "Failed to create budget" });
+    }
+  }
+});
+
+router.put("/budgets/:id", async (req: AuthRequest, res) => {
+  try {
+    const existing = await storage.getBudget(req.params.id, req.user!.id);
+    if (!existing) {
+      return res.status(404).json({ error: "Budget not found" });
+    }
+    const validatedData = budgetSchema.pick({ category: true, month: true, limitAmount: true, currency: true, rollover: true }).partial().parse({
+      ...req.body,
+      limitAmount: req.body.limitAmount === undefined ? undefined : Number(req.body.limitAmount),
+    });
+    await storage.updateBudget(req.params.id, validatedData, req.user!.id);
+    res.json(await storage.getBudget(req.params.id, req.user!.id));
+  } catch (error) {
+    console.error("Error updating budget:", error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else if ((error as { code?: string }).code === '23505') {
+      res.status(409).json({ error: "A budget for this category and month already exists" });
+    } else {
+      res.status(500).json({ error: "Failed to update budget" });
+    }
+  }
+});
+
+router.delete("/budgets/:id", async (req: AuthRequest, res) => {
+  try {
+    await storage.deleteBudget(req.params.id, req.user!.id);
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: "Failed to delete budget" });
+  }
+});
+
 // Asset routes
 router.get("/assets", async (req: AuthRequest, res) => {
   try {
-    const assets = await storage.getAllAssets(req.user!.id);
-    res.json(assets);
+    const query = assetListQuerySchema.parse(req.query);
+    const page = await storage.listAssets(req.user!.id, query);
+    res.json(query.limit === undefined ? page.items : page);
   } catch (error) {
-    res.status(500).json({ error: "Failed to get assets" });
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to get assets" });
+    }
   }
 });
 
@@ -426,6 +879,52 @@ router.get("/assets/:id", async (req: AuthRequest, res) => {
   }
 });
 
+router.get("/assets/:id/history", async (req: AuthRequest, res) => {
+  try {
+    const asset = await storage.getAsset(req.params.id, req.user!.id);
+    if (!asset) {
+      return res.status(404).json({ error: "Asset not found" });
+    }
+    const history = await storage.getAssetValuations(req.params.id, req.user!.id);
+    res.json(history);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get asset history" });
+  }
+});
+
+router.post("/assets/:id/history", async (req: AuthRequest, res) => {
+  try {
+    const asset = await storage.getAsset(req.params.id, req.user!.id);
+    if (!asset) {
+      return res.status(404).json({ error: "Asset not found" });
+    }
+
+    // Valuations default to today but may be back-dated
+    const valuationDate = req.body.date === undefined ? new Date() : parseDateParam(req.body.date);
+    if (!valuationDate) {
+      return res.status(400).json({ error: "Invalid date, expected YYYY-MM-DD" });
+    }
+
+    const validatedData = assetValuationSchema.omit({ id: true, createdAt: true }).parse({
+      assetId: req.params.id,
+      userId: req.user!.id,
+      value: Number(req.body.value),
+      valuationDate,
+      note: req.body.note,
+    });
+    const valuation = await storage.addAssetValuation(validatedData);
+    await refreshNetWorthSnapshot(storage, req.user!.id);
+    res.json(valuation);
+  } catch (error) {
+    console.error("Error adding asset valuation:", error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to add asset valuation" });
+    }
+  }
+});
+
 router.post("/assets", async (req: AuthRequest, res) => {
   try {
     const validatedData = assetSchema.omit({ id: true, createdAt: true }).parse({
@@ -433,6 +932,7 @@ router.post("/assets", async (req: AuthRequest, res) => {
       userId: req.user!.id,
     });
     const asset = await storage.createAsset(validatedData);
+    await refreshNetWorthSnapshot(storage, req.user!.id);
     res.json(asset);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -458,7 +958,9 @@ router.put("/assets", authenticateToken, async (req: AuthRequest, res) => {
           name: asset.name,
           category: asset.category,
           value: asset.value,
+          currency: asset.currency,
           incomeGenerated: asset.incomeGenerated,
+          accountId: asset.accountId,
           notes: asset.notes
         }, userId);
       } else {
@@ -468,12 +970,16 @@ router.put("/assets", authenticateToken, async (req: AuthRequest, res) => {
           name: asset.name,
           category: asset.category,
           value: asset.value,
+          currency: asset.currency,
           incomeGenerated: asset.incomeGenerated,
+          accountId: asset.accountId,
           notes: asset.notes
         });
       }
     }));
 
+    await refreshNetWorthSnapshot(storage, userId);
+
     const updatedAssets = await storage.getAllAssets(userId);
     console.log('Updated assets:', updatedAssets);
     res.json(updatedAssets);
@@ -486,6 +992,7 @@ router.put("/assets", authenticateToken, async (req: AuthRequest, res) => {
 router.delete("/assets/:id", async (req: AuthRequest, res) => {
   try {
     await storage.deleteAsset(req.params.id, req.user!.id);
+    await refreshNetWorthSnapshot(storage, req.user!.id);
     res.status(204).send();
   } catch (error) {
     res.status(500).json({ error: "Failed to delete asset" });
@@ -495,10 +1002,15 @@ router.delete("/assets/:id", async (req: AuthRequest, res) => {
 // Liability routes
 router.get("/liabilities", async (req: AuthRequest, res) => {
   try {
-    const liabilities = await storage.getAllLiabilities(req.user!.id);
-    res.json(liabilities);
+    const query = liabilityListQuerySchema.parse(req.query);
+    const page = await storage.listLiabilities(req.user!.id, query);
+    res.json(query.limit === undefined ? page.items : page);
   } catch (error) {
-    res.status(500).json({ error: "Failed to get liabilities" });
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to get liabilities" });
+    }
   }
 });
 
@@ -514,21 +1026,68 @@ router.get("/liabilities/:id", async (req: AuthRequest, res) => {
   }
 });
 
-router.post("/liabilities", async (req: AuthRequest, res) => {
+router.get("/liabilities/:id/history", async (req: AuthRequest, res) => {
   try {
-    console.log('POST /liabilities - Request body:', req.body);
-    console.log('POST /liabilities - User ID:', req.user?.id);
+    const liability = await storage.getLiability(req.params.id, req.user!.id);
+    if (!liability) {
+      return res.status(404).json({ error: "Liability not found" });
+    }
+    const history = await storage.getLiabilityValuations(req.params.id, req.user!.id);
+    res.json(history);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get liability history" });
+  }
+});
 
-    if (!req.user?.id) {
-      return res.status(401).json({ error: "User not authenticated" });
+router.post("/liabilities/:id/history", async (req: AuthRequest, res) => {
+  try {
+    const liability = await storage.getLiability(req.params.id, req.user!.id);
+    if (!liability) {
+      return res.status(404).json({ error: "Liability not found" });
     }
 
-    const liabilityData = {
-      ...req.body,
-      userId: req.user.id,
-      amount: Number(req.body.amount),
-      interestRate: Number(req.body.interestRate)
-    };
+    // Valuations default to today but may be back-dated
+    const valuationDate = req.body.date === undefined ? new Date() : parseDateParam(req.body.date);
+    if (!valuationDate) {
+      return res.status(400).json({ error: "Invalid date, expected YYYY-MM-DD" });
+    }
+
+    const validatedData = liabilityValuationSchema.omit({ id: true, createdAt: true }).parse({
+      liabilityId: req.params.id,
+      userId: req.user!.id,
+      amount: Number(req.body.amount),
+      valuationDate,
+      note: req.body.note,
+    });
+    const valuation = await storage.addLiabilityValuation(validatedData);
+    await refreshNetWorthSnapshot(storage, req.user!.id);
+    res.json(valuation);
+  } catch (error) {
+    console.error("Error adding liability valuation:", error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to add liability valuation" });
+    }
+  }
+});
+
+router.post("/liabilities", async (req: AuthRequest, res) => {
+  try {
+    console.log('POST /liabilities - Request body:', req.body);
+    console.log('POST /liabilities - User ID:', req.user?.id);
+
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const liabilityData = {
+      ...req.body,
+      userId: req.user.id,
+      amount: Number(req.body.amount),
+      interestRate: Number(req.body.interestRate),
+      minimumPayment: req.body.minimumPayment != null && req.body.minimumPayment !== '' ? Number(req.body.minimumPayment) : undefined
+    };
 
     console.log('POST /liabilities - Processed data:', liabilityData);
 
@@ -537,6 +1096,7 @@ router.post("/liabilities", async (req: AuthRequest, res) => {
 
     const liability = await storage.createLiability(validatedData);
     console.log('POST /liabilities - Created liability:', liability);
+    await refreshNetWorthSnapshot(storage, req.user.id);
 
     res.json(liability);
   } catch (error) {
@@ -565,7 +1125,13 @@ router.put("/liabilities", authenticateToken, async (req: AuthRequest, res) => {
           description: liability.description,
           type: liability.type,
           amount: Number(liability.amount),
+          currency: liability.currency,
           interestRate: Number(liability.interestRate),
+          // Sending minimumPayment as null or empty clears it, leaving it out keeps it
+          ...('minimumPayment' in liability && {
+            minimumPayment: liability.minimumPayment != null && liability.minimumPayment !== '' ? Number(liability.minimumPayment) : undefined,
+          }),
+          accountId: liability.accountId,
           notes: liability.notes
         }, userId);
       } else {
@@ -575,12 +1141,17 @@ router.put("/liabilities", authenticateToken, async (req: AuthRequest, res) => {
           description: liability.description,
           type: liability.type,
           amount: Number(liability.amount),
+          currency: liability.currency,
           interestRate: Number(liability.interestRate),
+          minimumPayment: liability.minimumPayment != null && liability.minimumPayment !== '' ? Number(liability.minimumPayment) : undefined,
+          accountId: liability.accountId,
           notes: liability.notes
         });
       }
     }));
 
+    await refreshNetWorthSnapshot(storage, userId);
+
     const updatedLiabilities = await storage.getAllLiabilities(userId);
     console.log('Updated liabilities:', updatedLiabilities);
     res.json(updatedLiabilities);
@@ -593,19 +1164,59 @@ router.put("/liabilities", authenticateToken, async (req: AuthRequest, res) => {
 router.delete("/liabilities/:id", async (req: AuthRequest, res) => {
   try {
     await storage.deleteLiability(req.params.id, req.user!.id);
+    await refreshNetWorthSnapshot(storage, req.user!.id);
     res.status(204).send();
   } catch (error) {
     res.status(500).json({ error: "Failed to delete liability" });
   }
 });
 
+// Plan routes
+router.post("/plans/debt-payoff", async (req: AuthRequest, res) => {
+  try {
+    const request = debtPayoffRequestSchema.parse(req.body);
+    // Planned in the base currency, with balances converted at today's rates;
+    // liabilities in a currency without a rate are left out and reported
+    const { liabilities, currency, missingCurrencies } = await loadConvertedFinancialData(storage, req.user!.id);
+
+    const unknownIds = [...(request.liabilityIds ?? []), ...(request.customOrder ?? [])]
+      .filter(id => !liabilities.some(liability => liability.id === id));
+    if (unknownIds.length > 0) {
+      const unconverted = (await storage.getAllLiabilities(req.user!.id))
+        .filter(liability => unknownIds.includes(liability.id))
+        .map(liability => liability.id);
+      const notFound = unknownIds.filter(id => !unconverted.includes(id));
+      if (notFound.length > 0) {
+        return res.status(404).json({ error: "Liability not found", liabilityIds: notFound });
+      }
+      return res.status(422).json({ error: "No exchange rate for the currency of these liabilities", liabilityIds: unconverted, missingCurrencies });
+    }
+
+    res.json({ ...planDebtPayoff(liabilities, request, currency), missingCurrencies });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    if (error instanceof DebtPayoffBudgetError) {
+      return res.status(422).json({ error: error.message, totalMinimumPayment: error.totalMinimumPayment });
+    }
+    console.error("Error planning debt payoff:", error);
+    res.status(500).json({ error: "Failed to plan debt payoff" });
+  }
+});
+
 // Goal routes
 router.get("/goals", async (req: AuthRequest, res) => {
   try {
-    const goals = await storage.getAllGoals(req.user!.id);
-    res.json(goals);
+    const query = goalListQuerySchema.parse(req.query);
+    const page = await storage.listGoals(req.user!.id, query);
+    res.json(query.limit === undefined ? page.items : page);
   } catch (error) {
-    res.status(500).json({ error: "Failed to get goals" });
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to get goals" });
+    }
   }
 });
 
@@ -615,12 +1226,142 @@ router.get("/goals/:id", async (req: AuthRequest, res) => {
     if (!goal) {
       return res.status(404).json({ error: "Goal not found" });
     }
-    res.json(goal);
+    const [contributions, assetLinks] = await Promise.all([
+      storage.getGoalContributions(goal.id, req.user!.id),
+      storage.getGoalAssets(goal.id, req.user!.id),
+    ]);
+    res.json({ ...goal, assetLinks: await withMissingRates(goal, assetLinks, req.user!.id), projection: projectGoal(goal, contributions) });
   } catch (error) {
+    console.error("Error getting goal:", error);
     res.status(500).json({ error: "Failed to get goal" });
   }
 });
 
+router.get("/goals/:id/contributions", async (req: AuthRequest, res) => {
+  try {
+    const goal = await storage.getGoal(req.params.id, req.user!.id);
+    if (!goal) {
+      return res.status(404).json({ error: "Goal not found" });
+    }
+    const contributions = await storage.getGoalContributions(req.params.id, req.user!.id);
+    res.json(contributions);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get goal contributions" });
+  }
+});
+
+router.post("/goals/:id/contributions", async (req: AuthRequest, res) => {
+  try {
+    const goal = await storage.getGoal(req.params.id, req.user!.id);
+    if (!goal) {
+      return res.status(404).json({ error: "Goal not found" });
+    }
+
+    // Contributions default to today but may be back-dated
+    const contributionDate = req.body.date === undefined ? new Date() : parseDateParam(req.body.date);
+    if (!contributionDate) {
+      return res.status(400).json({ error: "Invalid date, expected YYYY-MM-DD" });
+    }
+
+    const validatedData = goalContributionSchema.omit({ id: true, createdAt: true, kind: true }).parse({
+      goalId: req.params.id,
+      userId: req.user!.id,
+      assetId: req.body.assetId || undefined,
+      contributionDate,
+      amount: Number(req.body.amount),
+      note: req.body.note,
+    });
+    if ((await storage.getGoalAssets(goal.id, req.user!.id)).length > 0) {
+      return res.status(409).json({ error: "Goal progress follows its linked assets" });
+    }
+    if (sumMoney([goal.currentAmount, validatedData.amount], goal.currency) < 0) {
+      return res.status(400).json({ error: "Withdrawal is larger than the amount saved" });
+    }
+    if (validatedData.assetId && !(await storage.getAsset(validatedData.assetId, req.user!.id))) {
+      return res.status(404).json({ error: "Asset not found" });
+    }
+
+    const contribution = await storage.addGoalContribution(validatedData);
+    res.json(contribution);
+  } catch (error) {
+    console.error("Error adding goal contribution:", error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to add goal contribution" });
+    }
+  }
+});
+
+const goalAssetLinksSchema = z.object({
+  links: z.array(z.object({
+    assetId: z.string().uuid(),
+    percentage: goalAssetSchema.shape.percentage.default(100),
+  })),
+});
+
+// Marks links to assets in a currency with no rate to the goal's currency;
+// while any link has no rate the goal keeps its last amount
+async function withMissingRates(goal: Goal, links: GoalAsset[], userId: number) {
+  if (links.length === 0) return links.map(link => ({ ...link, missingRate: false }));
+  const [assets, rates, baseCurrency] = await Promise.all([
+    storage.getAllAssets(userId),
+    storage.getExchangeRates(userId),
+    storage.getBaseCurrency(userId),
+  ]);
+  const converter = new CurrencyConverter(goal.currency ?? baseCurrency, rates);
+  return links.map(link => {
+    const asset = assets.find(asset => asset.id === link.assetId);
+    return { ...link, missingRate: !!asset && converter.convert(asset.value, asset.currency) === undefined };
+  });
+}
+
+router.get("/goals/:id/assets", async (req: AuthRequest, res) => {
+  try {
+    const goal = await storage.getGoal(req.params.id, req.user!.id);
+    if (!goal) {
+      return res.status(404).json({ error: "Goal not found" });
+    }
+    const links = await storage.getGoalAssets(req.params.id, req.user!.id);
+    res.json(await withMissingRates(goal, links, req.user!.id));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get goal assets" });
+  }
+});
+
+// Replaces the goal's linked assets; an empty list unlinks them all and
+// leaves the current amount where it is
+router.put("/goals/:id/assets", async (req: AuthRequest, res) => {
+  try {
+    const goal = await storage.getGoal(req.params.id, req.user!.id);
+    if (!goal) {
+      return res.status(404).json({ error: "Goal not found" });
+    }
+
+    const { links } = goalAssetLinksSchema.parse(req.body);
+    const assetIds = links.map(link => link.assetId);
+    if (new Set(assetIds).size !== assetIds.length) {
+      return res.status(400).json({ error: "Each asset can only be linked once" });
+    }
+    const assets = await storage.getAllAssets(req.user!.id);
+    const unknownIds = assetIds.filter(id => !assets.some(asset => asset.id === id));
+    if (unknownIds.length > 0) {
+      return res.status(404).json({ error: "Asset not found", assetIds: unknownIds });
+    }
+
+    const assetLinks = await storage.setGoalAssets(goal.id, req.user!.id, links);
+    const updatedGoal = await storage.getGoal(goal.id, req.user!.id);
+    res.json({ ...updatedGoal, assetLinks: await withMissingRates(updatedGoal ?? goal, assetLinks, req.user!.id) });
+  } catch (error) {
+    console.error("Error linking goal assets:", error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to link goal assets" });
+    }
+  }
+});
+
 router.post("/goals", async (req: AuthRequest, res) => {
   try {
     console.log('POST /goals - Request body:', req.body);
@@ -660,6 +1401,7 @@ router.put("/goals", authenticateToken, async (req: AuthRequest, res) => {
           description: goal.description,
           targetAmount: goal.targetAmount,
           currentAmount: goal.currentAmount,
+          currency: goal.currency,
           targetDate: new Date(goal.targetDate)
         }, userId);
       } else {
@@ -669,6 +1411,7 @@ router.put("/goals", authenticateToken, async (req: AuthRequest, res) => {
           description: goal.description,
           targetAmount: goal.targetAmount,
           currentAmount: goal.currentAmount,
+          currency: goal.currency,
           targetDate: new Date(goal.targetDate)
         });
       }
@@ -692,15 +1435,318 @@ router.delete("/goals/:id", async (req: AuthRequest, res) => {
   }
 });
 
+// Export routes
+router.get("/export", async (req: AuthRequest, res) => {
+  try {
+    const format = (req.query.format ?? 'json') as ExportFormat;
+    if (!exportFormats.includes(format)) {
+      return res.status(400).json({ error: `Invalid format, expected one of: ${exportFormats.join(', ')}` });
+    }
+
+    const bundle = await buildExportBundle(storage, req.user!.id);
+    const filename = `balance-sheet-export-${formatDate(new Date())}`;
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.zip"`);
+      return res.send(await exportCsvZip(bundle));
+    }
+    if (format === 'xlsx') {
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.xlsx"`);
+      return res.send(await exportXlsx(bundle));
+    }
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+    res.json(bundle);
+  } catch (error) {
+    console.error("Error exporting data:", error);
+    res.status(500).json({ error: "Failed to export data" });
+  }
+});
+
+// Import routes
+router.post("/import/csv", async (req: AuthRequest, res) => {
+  try {
+    const request = csvImportRequestSchema.parse(req.body);
+    const result = await importCsv(storage, req.user!.id, request);
+    if (request.commit && !result.committed) {
+      return res.status(422).json({ error: "Fix the invalid rows before committing", ...result });
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Error importing CSV:", error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to import CSV" });
+    }
+  }
+});
+
+router.post("/import/ofx", async (req: AuthRequest, res) => {
+  try {
+    const request = ofxImportRequestSchema.parse(req.body);
+    const result = await importOfx(storage, req.user!.id, request);
+    if (result.committed) {
+      // Statement balances may have moved asset values and liability balances
+      await refreshNetWorthSnapshot(storage, req.user!.id);
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Error importing OFX:", error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else if (error instanceof Error && error.message.startsWith('Not an OFX document')) {
+      res.status(400).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: "Failed to import OFX" });
+    }
+  }
+});
+
+router.post("/import/bundle", async (req: AuthRequest, res) => {
+  try {
+    const request = bundleImportRequestSchema.parse(req.body);
+    const result = await importBundle(storage, req.user!.id, request);
+    if (request.commit && !result.committed) {
+      return res.status(422).json({ error: "Fix the invalid records before committing", ...result });
+    }
+    if (result.committed) {
+      await refreshNetWorthSnapshot(storage, req.user!.id);
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Error importing bundle:", error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to import bundle" });
+    }
+  }
+});
+
+// Exchange rate routes
+router.get("/exchange-rates", async (req: AuthRequest, res) => {
+  try {
+    const rates = await storage.getExchangeRates(req.user!.id);
+    res.json(rates);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get exchange rates" });
+  }
+});
+
+router.post("/exchange-rates", async (req: AuthRequest, res) => {
+  try {
+    // Rates default to today but may be back-dated
+    const rateDate = req.body.date === undefined ? new Date() : parseDateParam(req.body.date);
+    if (!rateDate) {
+      return res.status(400).json({ error: "Invalid date, expected YYYY-MM-DD" });
+    }
+
+    const validatedData = exchangeRateInputSchema.parse({
+      currency: req.body.currency,
+      quoteCurrency: req.body.quoteCurrency,
+      rate: Number(req.body.rate),
+      rateDate,
+    });
+    if (validatedData.currency === validatedData.quoteCurrency) {
+      return res.status(400).json({ error: "Currency and quote currency must differ" });
+    }
+
+    const [rate] = await storage.saveExchangeRates([{ ...validatedData, userId: req.user!.id, source: 'manual' }]);
+    // Today's snapshot is converted at the latest rates
+    await refreshNetWorthSnapshot(storage, req.user!.id);
+    res.json(rate);
+  } catch (error) {
+    console.error("Error saving exchange rate:", error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to save exchange rate" });
+    }
+  }
+});
+
+router.post("/exchange-rates/import", async (req: AuthRequest, res) => {
+  try {
+    const request = exchangeRateCsvImportSchema.parse(req.body);
+    const rows = parseExchangeRateCsv(request);
+    const invalid = rows.filter(row => row.errors.length > 0);
+
+    // Nothing is saved unless every row is valid
+    const commit = request.commit && invalid.length === 0;
+    const saved = commit
+      ? await storage.saveExchangeRates(rows.map(row => ({ ...row.data!, userId: req.user!.id, source: 'csv' as const })))
+      : [];
+    if (saved.length > 0) {
+      await refreshNetWorthSnapshot(storage, req.user!.id);
+    }
+
+    res.status(request.commit && !commit ? 422 : 200).json({
+      committed: commit,
+      rows,
+      counts: { total: rows.length, valid: rows.length - invalid.length, invalid: invalid.length, saved: saved.length },
+    });
+  } catch (error) {
+    console.error("Error importing exchange rates:", error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to import exchange rates" });
+    }
+  }
+});
+
+router.delete("/exchange-rates/:id", async (req: AuthRequest, res) => {
+  try {
+    await storage.deleteExchangeRate(req.params.id, req.user!.id);
+    await refreshNetWorthSnapshot(storage, req.user!.id);
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: "Failed to delete exchange rate" });
+  }
+});
+
+// Summary routes
+router.get("/summary", async (req: AuthRequest, res) => {
+  try {
+    const window = parseSummaryWindow(req.query.from, req.query.to);
+    if (!window) {
+      return res.status(400).json({ error: "Invalid date range, expected from/to as YYYY-MM-DD" });
+    }
+    const summary = await getFinancialSummary(storage, req.user!.id, window);
+    res.json(summary);
+  } catch (error) {
+    console.error("Error computing summary:", error);
+    res.status(500).json({ error: "Failed to get summary" });
+  }
+});
+
+// Net worth routes
+router.get("/net-worth/history", async (req: AuthRequest, res) => {
+  try {
+    const today = new Date();
+    const from = req.query.from === undefined
+      ? new Date(today.getFullYear() - 1, today.getMonth(), 1)
+      : parseDateParam(req.query.from);
+    const to = req.query.to === undefined
+      ? new Date(today.getFullYear(), today.getMonth(), today.getDate())
+      : parseDateParam(req.query.to);
+    const interval = req.query.interval ?? 'month';
+
+    if (!from || !to || from > to) {
+      return res.status(400).json({ error: "Invalid date range, expected from/to as YYYY-MM-DD" });
+    }
+    if (!netWorthIntervals.includes(interval as NetWorthInterval)) {
+      return res.status(400).json({ error: `Invalid interval, expected one of: ${netWorthIntervals.join(', ')}` });
+    }
+
+    const history = await getNetWorthHistory(storage, req.user!.id, from, to, interval as NetWorthInterval);
+    res.json(history);
+  } catch (error) {
+    console.error("Error getting net worth history:", error);
+    res.status(500).json({ error: "Failed to get net worth history" });
+  }
+});
+
+// Report routes
+router.get("/reports/expenses", async (req: AuthRequest, res) => {
+  try {
+    const query = expenseReportQuerySchema.parse(req.query);
+    res.json(await getExpenseReport(storage, req.user!.id, query));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error("Error getting expense report:", error);
+    res.status(500).json({ error: "Failed to get expense report" });
+  }
+});
+
+router.get("/reports/income-statement", async (req: AuthRequest, res) => {
+  try {
+    const today = new Date();
+    const month = req.query.period === undefined
+      ? new Date(today.getFullYear(), today.getMonth(), 1)
+      : parseMonthParam(req.query.period);
+    if (!month) {
+      return res.status(400).json({ error: "Invalid period, expected YYYY-MM" });
+    }
+    res.json(await getIncomeStatement(storage, req.user!.id, month));
+  } catch (error) {
+    console.error("Error building income statement:", error);
+    res.status(500).json({ error: "Failed to get income statement" });
+  }
+});
+
+router.get("/reports/cash-flow", async (req: AuthRequest, res) => {
+  try {
+    const window = parseSummaryWindow(req.query.from, req.query.to);
+    if (!window) {
+      return res.status(400).json({ error: "Invalid date range, expected from/to as YYYY-MM-DD" });
+    }
+    res.json(await getCashFlowStatement(storage, req.user!.id, window));
+  } catch (error) {
+    console.error("Error building cash-flow statement:", error);
+    res.status(500).json({ error: "Failed to get cash-flow statement" });
+  }
+});
+
+router.get("/reports/balance-sheet", async (req: AuthRequest, res) => {
+  try {
+    const query = balanceSheetQuerySchema.parse(req.query);
+    res.json(await getBalanceSheet(storage, req.user!.id, query));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    console.error("Error building balance sheet:", error);
+    res.status(500).json({ error: "Failed to get balance sheet" });
+  }
+});
+
+router.get("/reports/:type.pdf", async (req: AuthRequest, res) => {
+  try {
+    const type = req.params.type as PdfReportType;
+    if (!pdfReportTypes.includes(type)) {
+      return res.status(404).json({ error: `Unknown report, expected one of: ${pdfReportTypes.join(', ')}` });
+    }
+    const period = parsePdfPeriod(type, req.query.period);
+    if (!period) {
+      return res.status(400).json({
+        error: type === 'balance-sheet' ? "Invalid period, expected YYYY-MM-DD or YYYY-MM" : "Invalid period, expected YYYY-MM",
+      });
+    }
+
+    const report = await buildPdfReport(storage, req.user!.id, type, period);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${report.filename}"`);
+    res.send(report.content);
+  } catch (error) {
+    console.error("Error rendering PDF report:", error);
+    res.status(500).json({ error: "Failed to render report" });
+  }
+});
+
 // AI Assistant endpoint
 router.post("/ai/assist", authenticateToken, async (req: AuthRequest, res) => {
   try {
     console.log('AI Assistant Request:', req.body);
-    const advice = generateFinancialAdvice(req.body);
+    const { query } = aiAssistantRequestSchema.parse(req.body);
+
+    // Always use the server-computed summary instead of client-supplied numbers
+    const data = await loadConvertedFinancialData(storage, req.user!.id);
+    const summary = await buildFinancialSummary(storage, req.user!.id, data, getDefaultSummaryWindow());
+
+    const advice = generateFinancialAdvice({ query, userData: { ...data, summary } });
     console.log('AI Assistant Response:', advice);
     res.json({ advice });
   } catch (error) {
     console.error("Error generating financial advice:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
     res.status(500).json({ error: "Failed to generate financial advice" });
   }
 });
@@ -716,78 +1762,30 @@ router.post('/ai/chat', authenticateToken, async (req: AuthRequest, res) => {
   console.log('AI Chat endpoint hit');
   try {
     console.log('AI Chat Request:', req.body);
-    const { message } = req.body;
-
-    if (!message) {
-      return res.status(400).json({ error: 'Message is required' });
-    }
-
-    // Get user's financial data for context
+    const { message, tools, ...options } = aiChatRequestSchema.parse(req.body);
     const userId = req.user!.id;
-    const [incomes, expenses, assets, liabilities, goals] = await Promise.all([
-      storage.getAllIncomes(userId),
-      storage.getAllExpenses(userId),
-      storage.getAllAssets(userId),
-      storage.getAllLiabilities(userId),
-      storage.getAllGoals(userId)
-    ]);
-
-    // Create context from user's financial data
-    const financialContext = createFinancialContext(incomes, expenses, assets, liabilities, goals);
-
-    console.log('Sending prompt to OpenRouter API');
-
-    // Use OpenRouter API with Llama 4 Maverick model
-    const response = await fetch(
-      "https://openrouter.ai/api/v1/chat/completions",
-      {
-        headers: {
-          "Authorization": `Bearer ${process.env.OPENROUTER_API_KEY}`,
-          "Content-Type": "application/json",
-          "HTTP-Referer": "https://balancesheettracker.com", // Replace with your actual domain
-          "X-Title": "Balance Sheet Tracker"
-        },
-        method: "POST",
-        body: JSON.stringify({
-          model: "meta-llama/llama-4-maverick:free",
-          messages: [
-            {
-              role: "system",
-              content: "You are a financial advisor AI assistant. Your role is to provide personalized financial advice based on the user's financial data. Always give specific, actionable advice that relates to the user's actual financial situation. If the user asks a general question, still try to relate it to their specific financial data when possible."
-            },
-            {
-              role: "user",
-              content: `Here is my financial data:\n\n${financialContext}\n\nMy question is: ${message}\n\nPlease provide personalized advice based on my financial situation.`
-            }
-          ],
-          temperature: 0.7,
-          max_tokens: 500
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenRouter API Error:', errorText);
-      throw new Error(`API error: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    console.log('OpenRouter Response:', data);
-
-    // Extract the generated text from the response
-    let generatedText = 'I apologize, but I encountered an error generating a response.';
-
-    if (data && data.choices && data.choices.length > 0 && data.choices[0].message) {
-      generatedText = data.choices[0].message.content;
+    const provider = getLLMProvider();
+
+    let completion;
+    let pendingActions: AIPendingAction[] = [];
+    if (tools) {
+      // The model looks data up through tools instead of getting every record
+      const systemPrompt = await buildAssistantSystemPrompt(storage, userId, true);
+      ({ completion, pendingActions } = await runToolLoop(storage, provider, userId, undefined, [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: message },
+      ], options));
+    } else {
+      // Get user's financial data for context
+      const financialContext = buildFinancialContext(await loadConvertedFinancialData(storage, userId));
+      completion = await provider.complete(buildAdvisorMessages(financialContext, message), options);
     }
 
-    // Clean up the response
-    generatedText = generatedText.trim();
-
     // Ensure we're sending a proper JSON response
     const responseData = {
-      response: generatedText,
+      response: completion.content,
+      model: completion.model,
+      pendingActions,
       success: true
     };
 
@@ -795,6 +1793,9 @@ router.post('/ai/chat', authenticateToken, async (req: AuthRequest, res) => {
     res.json(responseData);
   } catch (error) {
     console.error('AI Chat Error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors, success: false });
+    }
     // Send a more detailed error response
     res.status(500).json({
       error: 'Failed to generate AI response',
@@ -804,83 +1805,120 @@ router.post('/ai/chat', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// Test endpoint for AI chat
-router.get('/ai/test', authenticateToken, async (req: AuthRequest, res) => {
-  console.log('AI Test endpoint hit');
+// Streaming AI chat over Server-Sent Events. The turn is saved to the given
+// conversation, or to a new one, and the final "done" event carries its ids.
+const streamAIChat = async (req: AuthRequest, res: Response) => {
+  let input: z.infer<typeof aiChatStreamRequestSchema>;
   try {
-    // Hardcoded test question
-    const testQuestion = "How can I increase my assets?";
-    console.log('Test question:', testQuestion);
-
-    // Get user's financial data for context
-    const userId = req.user!.id;
-    const [incomes, expenses, assets, liabilities, goals] = await Promise.all([
-      storage.getAllIncomes(userId),
-      storage.getAllExpenses(userId),
-      storage.getAllAssets(userId),
-      storage.getAllLiabilities(userId),
-      storage.getAllGoals(userId)
-    ]);
+    input = aiChatStreamRequestSchema.parse(req.method === 'GET' ? req.query : req.body);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    throw error;
+  }
+  const { message, conversationId, tools, ...options } = input;
 
-    // Create context from user's financial data
-    const financialContext = createFinancialContext(incomes, expenses, assets, liabilities, goals);
+  try {
+    const conversation = conversationId
+      ? await storage.getConversation(conversationId, req.user!.id)
+      : await storage.createConversation({ userId: req.user!.id, title: conversationTitleFrom(message) });
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
 
-    console.log('Sending test request to OpenRouter API');
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      // Stop reverse proxies from buffering the stream
+      'X-Accel-Buffering': 'no',
+    });
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
 
-    // Use OpenRouter API with Llama 4 Maverick model
-    const response = await fetch(
-      "https://openrouter.ai/api/v1/chat/completions",
-      {
-        headers: {
-          "Authorization": `Bearer ${process.env.OPENROUTER_API_KEY}`,
-          "Content-Type": "application/json",
-          "HTTP-Referer": "https://balancesheettracker.com",
-          "X-Title": "Balance Sheet Tracker"
-        },
-        method: "POST",
-        body: JSON.stringify({
-          model: "meta-llama/llama-4-maverick:free",
-          messages: [
-            {
-              role: "system",
-              content: "You are a financial advisor AI assistant. Your role is to provide personalized financial advice based on the user's financial data. Always give specific, actionable advice that relates to the user's actual financial situation. If the user asks a general question, still try to relate it to their specific financial data when possible."
-            },
-            {
-              role: "user",
-              content: `Here is my financial data:\n\n${financialContext}\n\nMy question is: ${testQuestion}\n\nPlease provide personalized advice based on my financial situation.`
-            }
-          ],
-          temperature: 0.7,
-          max_tokens: 500
-        }),
+    // Abort the upstream completion if the client disconnects mid-stream
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        console.log('AI chat stream closed by client');
+        controller.abort();
       }
-    );
+    });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenRouter API Error:', errorText);
-      throw new Error(`API error: ${response.status} - ${errorText}`);
+    try {
+      send('start', { conversationId: conversation.id });
+      const turn = await sendConversationMessage(
+        storage,
+        getLLMProvider(),
+        conversation,
+        message,
+        {
+          completion: { ...options, signal: controller.signal },
+          onToken: token => send('token', { content: token }),
+          tools,
+        }
+      );
+      send('done', {
+        conversationId: conversation.id,
+        userMessageId: turn.userMessage.id,
+        messageId: turn.assistantMessage.id,
+        model: turn.assistantMessage.model,
+        usage: {
+          promptTokens: turn.assistantMessage.promptTokens,
+          completionTokens: turn.assistantMessage.completionTokens,
+        },
+        pendingActions: turn.pendingActions,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('AI Chat Stream Error:', error);
+      send('error', {
+        error: 'Failed to generate AI response',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
     }
+    res.end();
+  } catch (error) {
+    console.error('AI Chat Stream Error:', error);
+    res.status(500).json({ error: 'Failed to generate AI response' });
+  }
+};
 
-    const data = await response.json();
-    console.log('OpenRouter Test Response:', JSON.stringify(data, null, 2));
+router.get('/ai/chat/stream', authenticateToken, streamAIChat);
+router.post('/ai/chat/stream', authenticateToken, streamAIChat);
 
-    // Extract the generated text from the response
-    let generatedText = 'I apologize, but I encountered an error generating a response.';
+// Single-use token for opening GET /ai/chat/stream?stream_token=... from an
+// EventSource; it expires after a minute
+router.post('/ai/chat/stream-token', authenticateToken, (req: AuthRequest, res) => {
+  res.json(generateStreamToken(req.user!));
+});
 
-    if (data && data.choices && data.choices.length > 0 && data.choices[0].message) {
-      generatedText = data.choices[0].message.content;
-    }
+// Test endpoint for AI chat
+router.get('/ai/test', authenticateToken, async (req: AuthRequest, res) => {
+  console.log('AI Test endpoint hit');
+  try {
+    // Hardcoded test question
+    const testQuestion = "How can I increase my assets?";
+    console.log('Test question:', testQuestion);
+
+    // Get user's financial data for context
+    const financialContext = buildFinancialContext(await loadConvertedFinancialData(storage, req.user!.id));
 
-    // Clean up the response
-    generatedText = generatedText.trim();
+    const provider = getLLMProvider();
+    const completion = await provider.complete(buildAdvisorMessages(financialContext, testQuestion), {
+      model: typeof req.query.model === 'string' ? req.query.model : undefined,
+    });
 
-    console.log('AI Test Response:', generatedText);
+    console.log('AI Test Response:', completion.content);
 
     // Return the response
     res.json({
       question: testQuestion,
-      response: generatedText,
+      response: completion.content,
+      provider: provider.name,
+      model: completion.model,
       success: true
     });
   } catch (error) {
@@ -893,52 +1931,157 @@ router.get('/ai/test', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// Helper function to create financial context
-function createFinancialContext(incomes: any[], expenses: any[], assets: any[], liabilities: any[], goals: any[]): string {
-  const context = [];
+// AI conversation routes
+router.get('/ai/conversations', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const conversations = await storage.getConversations(req.user!.id);
+    res.json(conversations);
+  } catch (error) {
+    console.error('Error getting AI conversations:', error);
+    res.status(500).json({ error: "Failed to get conversations" });
+  }
+});
 
-  // Add income information
-  if (incomes.length > 0) {
-    context.push('INCOMES:');
-    incomes.forEach(income => {
-      context.push(`- ${income.source}: $${income.amount} (${income.frequency})`);
+router.post('/ai/conversations', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { title } = aiConversationCreateSchema.parse(req.body ?? {});
+    const conversation = await storage.createConversation({
+      userId: req.user!.id,
+      title: title ?? DEFAULT_CONVERSATION_TITLE,
     });
+    res.status(201).json(conversation);
+  } catch (error) {
+    console.error('Error creating AI conversation:', error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: error.errors });
+    } else {
+      res.status(500).json({ error: "Failed to create conversation" });
+    }
   }
+});
 
-  // Add expense information
-  if (expenses.length > 0) {
-    context.push('\nEXPENSES:');
-    expenses.forEach(expense => {
-      context.push(`- ${expense.category}: $${expense.amount}`);
-    });
+router.get('/ai/conversations/:id', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const conversation = await storage.getConversation(req.params.id, req.user!.id);
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+    const messages = await storage.getConversationMessages(conversation.id, req.user!.id);
+    res.json({ ...conversation, messages });
+  } catch (error) {
+    console.error('Error getting AI conversation:', error);
+    res.status(500).json({ error: "Failed to get conversation" });
   }
+});
+
+router.post('/ai/conversations/:id/messages', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { message, tools, ...options } = aiChatRequestSchema.parse(req.body);
+    const conversation = await storage.getConversation(req.params.id, req.user!.id);
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
 
-  // Add asset information
-  if (assets.length > 0) {
-    context.push('\nASSETS:');
-    assets.forEach(asset => {
-      context.push(`- ${asset.name}: $${asset.value}`);
+    const turn = await sendConversationMessage(storage, getLLMProvider(), conversation, message, { completion: options, tools });
+    res.status(201).json(turn);
+  } catch (error) {
+    console.error('Error sending AI message:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({
+      error: 'Failed to generate AI response',
+      details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
+});
 
-  // Add liability information
-  if (liabilities.length > 0) {
-    context.push('\nLIABILITIES:');
-    liabilities.forEach(liability => {
-      context.push(`- ${liability.description}: $${liability.amount}`);
-    });
+router.delete('/ai/conversations/:id', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const conversation = await storage.getConversation(req.params.id, req.user!.id);
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+    await storage.deleteConversation(conversation.id, req.user!.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting AI conversation:', error);
+    res.status(500).json({ error: "Failed to delete conversation" });
   }
+});
 
-  // Add goal information
-  if (goals.length > 0) {
-    context.push('\nGOALS:');
-    goals.forEach(goal => {
-      context.push(`- ${goal.description}: $${goal.currentAmount} / $${goal.targetAmount}`);
-    });
+// AI assistant actions: writes proposed by the assistant's tools
+router.get('/ai/actions', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const status = req.query.status;
+    if (status !== undefined && !aiPendingActionSchema.shape.status.safeParse(status).success) {
+      return res.status(400).json({ error: "Invalid status, expected pending, confirmed, rejected or failed" });
+    }
+    const actions = await storage.getPendingActions(req.user!.id, status as AIPendingAction["status"] | undefined);
+    res.json(actions);
+  } catch (error) {
+    console.error('Error getting AI actions:', error);
+    res.status(500).json({ error: "Failed to get actions" });
   }
+});
 
-  return context.join('\n');
-}
+router.post('/ai/actions/:id/confirm', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const action = await storage.resolvePendingAction(req.params.id, req.user!.id, 'confirmed');
+    if (!action) {
+      const existing = await storage.getPendingAction(req.params.id, req.user!.id);
+      return existing
+        ? res.status(409).json({ error: `Action already ${existing.status}` })
+        : res.status(404).json({ error: "Action not found" });
+    }
+
+    let note: string;
+    try {
+      const result = await executePendingAction(storage, action);
+      await storage.completePendingAction(action.id, { result });
+      action.result = result;
+      note = `Done: ${action.description}.`;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await storage.completePendingAction(action.id, { error: message });
+      action.status = 'failed';
+      action.error = message;
+      note = `Could not complete "${action.description}": ${message}`;
+    }
+
+    // Let the assistant see the outcome in later turns
+    if (action.conversationId) {
+      await storage.addConversationMessages(action.conversationId, [
+        { userId: action.userId, role: 'assistant', content: note },
+      ]);
+    }
+    res.status(action.status === 'failed' ? 422 : 200).json(action);
+  } catch (error) {
+    console.error('Error confirming AI action:', error);
+    res.status(500).json({ error: "Failed to confirm action" });
+  }
+});
+
+router.post('/ai/actions/:id/reject', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const action = await storage.resolvePendingAction(req.params.id, req.user!.id, 'rejected');
+    if (!action) {
+      const existing = await storage.getPendingAction(req.params.id, req.user!.id);
+      return existing
+        ? res.status(409).json({ error: `Action already ${existing.status}` })
+        : res.status(404).json({ error: "Action not found" });
+    }
+    if (action.conversationId) {
+      await storage.addConversationMessages(action.conversationId, [
+        { userId: action.userId, role: 'assistant', content: `Cancelled: ${action.description}.` },
+      ]);
+    }
+    res.json(action);
+  } catch (error) {
+    console.error('Error rejecting AI action:', error);
+    res.status(500).json({ error: "Failed to reject action" });
+  }
+});
 
 export const registerRoutes = async (app: Express): Promise<Server> => {
   app.use("/api", router);
@@ -1,6 +1,11 @@
-import { users, incomes, expenses, assets, liabilities, goals, type User, type InsertUser, type Income, type Expense, type Asset, type Liability, type Goal } from "@shared/schema";
+import { users, incomes, incomeReceipts, expenses, recurringExpenses, budgets, assets, liabilities, goals, goalContributions, goalAssets, assetValuations, liabilityValuations, netWorthSnapshots, exchangeRates, type User, type InsertUser, type Income, type IncomeReceipt, type Expense, type RecurringExpense, type Budget, type Asset, type Liability, type Goal, type GoalContribution, type GoalAsset, type AssetValuation, type LiabilityValuation, type NetWorthSnapshot, type ExchangeRate, aiConversations, aiMessages, aiPendingActions, type AIConversation, type AIMessage, type AIPendingAction } from "@shared/schema";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, or, gte, lte, lt, gt, desc, asc, inArray, ilike, isNull, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { addDays, formatDate, parseDateColumn } from "./dates";
+import { DEFAULT_CURRENCY, currencyDecimals, moneyToString, parseMoney, subtractMoney, sumMoney } from "@shared/money";
+import { CurrencyConverter } from "./currency";
+import { encodeCursor, type Page, type ListCursor, type SortOrder, type IncomeListQuery, type ExpenseListQuery, type AssetListQuery, type LiabilityListQuery, type GoalListQuery } from "./list-queries";
 import { v4 as uuidv4 } from "uuid";
 
 // User storage interface
@@ -17,55 +22,256 @@ export interface IUserStorage {
     googlePicture?: string;
   }): Promise<User>;
   updateUser(id: number, userData: Partial<InsertUser>): Promise<void>;
+  // Currency reports are converted to, and new records default to
+  getBaseCurrency(userId: number): Promise<string>;
 }
 
 // Income storage interface
 export interface IIncomeStorage {
   getAllIncomes(userId: number): Promise<Income[]>;
+  listIncomes(userId: number, query: IncomeListQuery): Promise<Page<Income>>;
   getIncome(id: string, userId: number): Promise<Income | undefined>;
   createIncome(income: Omit<Income, "id" | "createdAt">): Promise<Income>;
   updateIncome(id: string, income: Partial<Omit<Income, "id" | "createdAt">>, userId: number): Promise<void>;
   deleteIncome(id: string, userId: number): Promise<void>;
+  getIncomeReceipts(userId: number, from: Date, to: Date): Promise<IncomeReceipt[]>;
+  recordIncomeReceipt(receipt: Omit<IncomeReceipt, "id" | "createdAt">): Promise<IncomeReceipt>;
 }
 
 // Expense storage interface
 export interface IExpenseStorage {
   getAllExpenses(userId: number): Promise<Expense[]>;
+  listExpenses(userId: number, query: ExpenseListQuery): Promise<Page<Expense>>;
   getExpense(id: string, userId: number): Promise<Expense | undefined>;
   createExpense(expense: Omit<Expense, "id" | "createdAt">): Promise<Expense>;
   updateExpense(id: string, expense: Partial<Omit<Expense, "id" | "createdAt">>, userId: number): Promise<void>;
   deleteExpense(id: string, userId: number): Promise<void>;
+  // Expenses dated from `from` (inclusive) up to `to` (exclusive)
+  getExpensesBetween(userId: number, from: Date, to: Date): Promise<Expense[]>;
+  // Totals of the same expenses per category and currency, and per period
+  // when one is given, summed by the database; the filter narrows them as
+  // in listExpenses
+  getExpenseTotals(userId: number, from: Date, to: Date, period?: ExpenseTotalPeriod, filter?: ExpenseTotalFilter): Promise<ExpenseTotal[]>;
+}
+
+export type ExpenseTotalPeriod = 'week' | 'month';
+
+export type ExpenseTotalFilter = Pick<ExpenseListQuery, 'category' | 'q'>;
+
+export interface ExpenseTotal {
+  // First day of the week (Monday) or month, YYYY-MM-DD; undefined when not
+  // grouped by period
+  periodStart?: string;
+  category: string;
+  currency: string;
+  total: number;
+  count: number;
+}
+
+// Recurring expense storage interface
+export interface IRecurringExpenseStorage {
+  getAllRecurringExpenses(userId: number): Promise<RecurringExpense[]>;
+  getRecurringExpense(id: string, userId: number): Promise<RecurringExpense | undefined>;
+  createRecurringExpense(recurringExpense: Omit<RecurringExpense, "id" | "createdAt">): Promise<RecurringExpense>;
+  updateRecurringExpense(id: string, recurringExpense: Partial<Omit<RecurringExpense, "id" | "userId" | "createdAt">>, userId: number): Promise<void>;
+  deleteRecurringExpense(id: string, userId: number): Promise<void>;
+  // Active templates of every user that are due on or before the given date
+  getDueRecurringExpenses(asOf: Date): Promise<RecurringExpense[]>;
+  // Move the due date forward only if it still equals `dueDate`, so two
+  // generators never materialize the same occurrence; returns whether it moved
+  advanceRecurringExpense(id: string, dueDate: Date, nextDueDate: Date, status: RecurringExpense["status"]): Promise<boolean>;
+  // Advance as above and write the occurrence's expense in one transaction;
+  // undefined when another generator already charged it
+  chargeRecurringExpense(id: string, dueDate: Date, nextDueDate: Date, status: RecurringExpense["status"], expense: Omit<Expense, "id" | "createdAt">): Promise<Expense | undefined>;
+}
+
+// Budget storage interface
+export interface IBudgetStorage {
+  getBudgets(userId: number, month?: string): Promise<Budget[]>;
+  getBudget(id: string, userId: number): Promise<Budget | undefined>;
+  createBudget(budget: Omit<Budget, "id" | "createdAt">): Promise<Budget>;
+  updateBudget(id: string, budget: Partial<Omit<Budget, "id" | "userId" | "createdAt">>, userId: number): Promise<void>;
+  deleteBudget(id: string, userId: number): Promise<void>;
 }
 
 // Asset storage interface
 export interface IAssetStorage {
   getAllAssets(userId: number): Promise<Asset[]>;
+  listAssets(userId: number, query: AssetListQuery): Promise<Page<Asset>>;
   getAsset(id: string, userId: number): Promise<Asset | undefined>;
   createAsset(asset: Omit<Asset, "id" | "createdAt">): Promise<Asset>;
   updateAsset(id: string, asset: Partial<Omit<Asset, "id" | "createdAt">>, userId: number): Promise<void>;
   deleteAsset(id: string, userId: number): Promise<void>;
+  getAssetValuations(assetId: string, userId: number): Promise<AssetValuation[]>;
+  // Latest valuation of each of the user's assets on or before `asOf`
+  getAssetValuationsAsOf(userId: number, asOf: Date): Promise<AssetValuation[]>;
+  // Earliest valuation of each of the given assets, the value it was added with
+  getFirstAssetValuations(userId: number, assetIds: string[]): Promise<AssetValuation[]>;
+  // Also revises net worth snapshots already taken for the days it covers
+  addAssetValuation(valuation: Omit<AssetValuation, "id" | "createdAt">): Promise<AssetValuation>;
 }
 
 // Liability storage interface
 export interface ILiabilityStorage {
   getAllLiabilities(userId: number): Promise<Liability[]>;
+  listLiabilities(userId: number, query: LiabilityListQuery): Promise<Page<Liability>>;
   getLiability(id: string, userId: number): Promise<Liability | undefined>;
   createLiability(liability: Omit<Liability, "id" | "createdAt">): Promise<Liability>;
   updateLiability(id: string, liability: Partial<Omit<Liability, "id" | "createdAt">>, userId: number): Promise<void>;
   deleteLiability(id: string, userId: number): Promise<void>;
+  getLiabilityValuations(liabilityId: string, userId: number): Promise<LiabilityValuation[]>;
+  // Latest balance of each of the user's liabilities on or before `asOf`
+  getLiabilityValuationsAsOf(userId: number, asOf: Date): Promise<LiabilityValuation[]>;
+  // Also revises net worth snapshots already taken for the days it covers
+  addLiabilityValuation(valuation: Omit<LiabilityValuation, "id" | "createdAt">): Promise<LiabilityValuation>;
 }
 
 // Goal storage interface
 export interface IGoalStorage {
   getAllGoals(userId: number): Promise<Goal[]>;
+  listGoals(userId: number, query: GoalListQuery): Promise<Page<Goal>>;
   getGoal(id: string, userId: number): Promise<Goal | undefined>;
   createGoal(goal: Omit<Goal, "id" | "createdAt">): Promise<Goal>;
   updateGoal(id: string, goal: Partial<Omit<Goal, "id" | "createdAt">>, userId: number): Promise<void>;
   deleteGoal(id: string, userId: number): Promise<void>;
+  getGoalContributions(goalId: string, userId: number): Promise<GoalContribution[]>;
+  // Contributions to all of the user's goals, for exports
+  getAllGoalContributions(userId: number): Promise<GoalContribution[]>;
+  // Records a contribution by the user and adds it to the goal's current amount
+  addGoalContribution(contribution: Omit<GoalContribution, "id" | "createdAt" | "kind">): Promise<GoalContribution>;
+  getGoalAssets(goalId: string, userId: number): Promise<GoalAsset[]>;
+  // Asset links of all of the user's goals, for exports
+  getAllGoalAssets(userId: number): Promise<GoalAsset[]>;
+  // Replaces the goal's asset links and derives its current amount from them
+  setGoalAssets(goalId: string, userId: number, links: Pick<GoalAsset, "assetId" | "percentage">[]): Promise<GoalAsset[]>;
+}
+
+// Exchange rate storage interface
+export interface IExchangeRateStorage {
+  getExchangeRates(userId: number): Promise<ExchangeRate[]>;
+  // Inserts the rates, replacing any already stored for the same pair and date
+  saveExchangeRates(rates: Omit<ExchangeRate, "id" | "createdAt">[]): Promise<ExchangeRate[]>;
+  deleteExchangeRate(id: string, userId: number): Promise<void>;
+}
+
+// Net worth snapshot storage interface
+export interface INetWorthStorage {
+  // Asset and liability writes do not record one themselves; see
+  // refreshNetWorthSnapshot
+  recordNetWorthSnapshot(userId: number, date?: Date): Promise<NetWorthSnapshot>;
+  getNetWorthSnapshots(userId: number, from: Date, to: Date): Promise<NetWorthSnapshot[]>;
+  getNetWorthSnapshotBefore(userId: number, date: Date): Promise<NetWorthSnapshot | undefined>;
+}
+
+// Bulk import storage interface
+export interface ImportRecords {
+  expenses?: Omit<Expense, "id" | "createdAt">[];
+  incomes?: Omit<Income, "id" | "createdAt">[];
+  // Statement balances, recorded as valuations in the same transaction
+  assetValuations?: Omit<AssetValuation, "id" | "createdAt">[];
+  liabilityValuations?: Omit<LiabilityValuation, "id" | "createdAt">[];
+}
+
+// A full account restore, with ids already assigned by the caller and goal
+// links and contributions pointing at the restored goals and assets
+export interface RestoreRecords {
+  incomes: Income[];
+  expenses: Expense[];
+  assets: Asset[];
+  liabilities: Liability[];
+  goals: Goal[];
+  goalAssets: GoalAsset[];
+  goalContributions: GoalContribution[];
+}
+
+export interface IImportStorage {
+  // Insert all records in a single transaction; returns how many of each
+  // were written and how many were skipped because their external id was
+  // already imported
+  importRecords(records: ImportRecords): Promise<{ expenses: number; incomes: number; duplicates: number }>;
+  // Insert a restored account in a single transaction, first deleting the
+  // user's existing incomes, expenses, assets, liabilities and goals when replacing
+  restoreRecords(userId: number, records: RestoreRecords, mode: 'merge' | 'replace'): Promise<void>;
+  // Which of the given external ids already exist on the user's expenses or incomes
+  getExistingExternalIds(userId: number, externalIds: string[]): Promise<Set<string>>;
+}
+
+// AI conversation storage interface
+export interface IConversationStorage {
+  getConversations(userId: number): Promise<AIConversation[]>;
+  getConversation(id: string, userId: number): Promise<AIConversation | undefined>;
+  createConversation(conversation: Omit<AIConversation, "id" | "createdAt" | "updatedAt">): Promise<AIConversation>;
+  deleteConversation(id: string, userId: number): Promise<void>;
+  // Oldest first
+  getConversationMessages(conversationId: string, userId: number): Promise<AIMessage[]>;
+  // Append a turn in one transaction and bump the conversation's updatedAt
+  addConversationMessages(conversationId: string, messages: Omit<AIMessage, "id" | "conversationId" | "createdAt">[]): Promise<AIMessage[]>;
+  createPendingAction(action: Pick<AIPendingAction, "userId" | "conversationId" | "tool" | "arguments" | "description">): Promise<AIPendingAction>;
+  getPendingActions(userId: number, status?: AIPendingAction["status"]): Promise<AIPendingAction[]>;
+  getPendingAction(id: string, userId: number): Promise<AIPendingAction | undefined>;
+  // Move a pending action to confirmed or rejected; undefined if it was not
+  // pending, so an action can only be resolved once
+  resolvePendingAction(id: string, userId: number, status: "confirmed" | "rejected"): Promise<AIPendingAction | undefined>;
+  // Record what a confirmed action produced, or mark it failed
+  completePendingAction(id: string, outcome: { result: unknown } | { error: string }): Promise<void>;
 }
 
 // Combined storage interface
-export interface IStorage extends IUserStorage, IIncomeStorage, IExpenseStorage, IAssetStorage, ILiabilityStorage, IGoalStorage {}
+export interface IStorage extends IUserStorage, IIncomeStorage, IExpenseStorage, IRecurringExpenseStorage, IBudgetStorage, IAssetStorage, ILiabilityStorage, IGoalStorage, IExchangeRateStorage, INetWorthStorage, IImportStorage, IConversationStorage {}
+
+// List query helpers. Pages are read with keyset pagination on the sort
+// column and id, so a page costs the same however deep into a list it is.
+
+// Matches `q` anywhere in any of the columns, ignoring case
+function containsText(q: string, ...columns: AnyPgColumn[]): SQL | undefined {
+  const pattern = `%${q.replace(/[\\%_]/g, '\\$&')}%`;
+  return or(...columns.map(column => ilike(column, pattern)));
+}
+
+function equalsIgnoringCase(column: AnyPgColumn, value: string): SQL {
+  return sql`lower(${column}) = lower(${value})`;
+}
+
+// Rows that come after the cursor in (sort column, id) order
+function afterCursor(sortColumn: AnyPgColumn, idColumn: AnyPgColumn, cursor?: ListCursor): SQL | undefined {
+  if (!cursor) return undefined;
+  return cursor.order === 'asc'
+    ? sql`(${sortColumn}, ${idColumn}) > (${cursor.value}, ${cursor.id})`
+    : sql`(${sortColumn}, ${idColumn}) < (${cursor.value}, ${cursor.id})`;
+}
+
+function pageOrder(sortColumn: AnyPgColumn, idColumn: AnyPgColumn, order: SortOrder): SQL[] {
+  return order === 'asc' ? [asc(sortColumn), asc(idColumn)] : [desc(sortColumn), desc(idColumn)];
+}
+
+// The sort column as text, as it goes into the next page's cursor
+function sortValue(sortColumn: AnyPgColumn): SQL<string> {
+  return sql<string>`${sortColumn}::text`;
+}
+
+// One row more than the page size, which tells whether there is a next page;
+// every row when the list is not paged
+function withPageLimit<T extends { limit(limit: number): T }>(select: T, query: { limit?: number }): T {
+  return query.limit === undefined ? select : select.limit(query.limit + 1);
+}
+
+function toPage<T extends { id: string }>(
+  rows: { item: T; sortValue: string }[],
+  query: { limit?: number; sort: string; order: SortOrder }
+): Page<T> {
+  const items = query.limit === undefined ? rows : rows.slice(0, query.limit);
+  const last = items[items.length - 1];
+  return {
+    items: items.map(row => row.item),
+    nextCursor: query.limit !== undefined && rows.length > query.limit && last
+      ? encodeCursor({ sort: query.sort, order: query.order, value: last.sortValue, id: last.item.id })
+      : null,
+  };
+}
+
+// The database or an open transaction, for writes that run on their own or
+// as part of a larger transaction
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 // PostgreSQL implementation
 export class PostgresStorage implements IStorage {
@@ -143,21 +349,37 @@ export class PostgresStorage implements IStorage {
       .where(eq(users.id, id));
   }
 
+  async getBaseCurrency(userId: number): Promise<string> {
+    const result = await db
+      .select({ baseCurrency: users.baseCurrency })
+      .from(users)
+      .where(eq(users.id, userId));
+    return result[0]?.baseCurrency ?? DEFAULT_CURRENCY;
+  }
+
   // Income methods
+  private mapIncome(income: typeof incomes.$inferSelect): Income {
+    return {
+      ...income,
+      amount: parseMoney(income.amount),
+      type: income.type as "active" | "passive",
+      frequency: income.frequency as "monthly" | "bi-weekly" | "weekly" | "annually" | "one-time",
+      startDate: parseDateColumn(income.startDate),
+      endDate: income.endDate ? parseDateColumn(income.endDate) : undefined,
+      payDay: income.payDay ?? undefined,
+      externalId: income.externalId ?? undefined,
+      notes: income.notes ?? undefined,
+      createdAt: income.createdAt ?? new Date(),
+    };
+  }
+
   async getAllIncomes(userId: number): Promise<Income[]> {
     console.log('=== Income Storage: Getting all incomes ===');
     console.log('User ID:', userId);
     try {
       const result = await db.select().from(incomes).where(eq(incomes.userId, userId));
       console.log('Database query result:', result);
-      const mappedResult = result.map(income => ({
-        ...income,
-        amount: parseFloat(income.amount),
-        type: income.type as "active" | "passive",
-        frequency: income.frequency as "monthly" | "bi-weekly" | "weekly" | "annually" | "one-time",
-        notes: income.notes ?? undefined,
-        createdAt: income.createdAt ?? new Date(),
-      }));
+      const mappedResult = result.map(income => this.mapIncome(income));
       console.log('Mapped result:', mappedResult);
       return mappedResult;
     } catch (error) {
@@ -166,6 +388,35 @@ export class PostgresStorage implements IStorage {
     }
   }
 
+  async listIncomes(userId: number, query: IncomeListQuery): Promise<Page<Income>> {
+    console.log('Listing incomes:', { userId, query });
+    const sortColumn = {
+      startDate: incomes.startDate,
+      amount: incomes.amount,
+      source: incomes.source,
+      category: incomes.category,
+      createdAt: incomes.createdAt,
+    }[query.sort];
+    const rows = await withPageLimit(db
+      .select({ income: incomes, sortValue: sortValue(sortColumn) })
+      .from(incomes)
+      .where(and(
+        eq(incomes.userId, userId),
+        // Active at some point in the range
+        query.to ? lte(incomes.startDate, formatDate(query.to)) : undefined,
+        query.from ? or(isNull(incomes.endDate), gte(incomes.endDate, formatDate(query.from))) : undefined,
+        query.minAmount !== undefined ? gte(incomes.amount, String(query.minAmount)) : undefined,
+        query.maxAmount !== undefined ? lte(incomes.amount, String(query.maxAmount)) : undefined,
+        query.category ? equalsIgnoringCase(incomes.category, query.category) : undefined,
+        query.type ? eq(incomes.type, query.type) : undefined,
+        query.frequency ? eq(incomes.frequency, query.frequency) : undefined,
+        query.q ? containsText(query.q, incomes.source, incomes.notes) : undefined,
+        afterCursor(sortColumn, incomes.id, query.cursor)
+      ))
+      .orderBy(...pageOrder(sortColumn, incomes.id, query.order)), query);
+    return toPage(rows.map(row => ({ item: this.mapIncome(row.income), sortValue: row.sortValue })), query);
+  }
+
   async getIncome(id: string, userId: number): Promise<Income | undefined> {
     console.log('=== Income Storage: Getting single income ===');
     console.log('Income ID:', id);
@@ -185,9 +436,13 @@ export class PostgresStorage implements IStorage {
       
       const mappedResult = {
         ...result[0],
-        amount: parseFloat(result[0].amount),
+        amount: parseMoney(result[0].amount),
         type: result[0].type as "active" | "passive",
         frequency: result[0].frequency as "monthly" | "bi-weekly" | "weekly" | "annually" | "one-time",
+        startDate: parseDateColumn(result[0].startDate),
+        endDate: result[0].endDate ? parseDateColumn(result[0].endDate) : undefined,
+        payDay: result[0].payDay ?? undefined,
+        externalId: result[0].externalId ?? undefined,
         notes: result[0].notes ?? undefined,
         createdAt: result[0].createdAt ?? new Date(),
       };
@@ -205,11 +460,17 @@ export class PostgresStorage implements IStorage {
     
     const id = uuidv4();
     const now = new Date();
+    const currency = income.currency ?? await this.getBaseCurrency(income.userId);
     const incomeData = {
       id,
       ...income,
-      amount: income.amount.toString(),
+      amount: moneyToString(income.amount, currency),
+      currency,
+      startDate: formatDate(income.startDate),
+      endDate: income.endDate ? formatDate(income.endDate) : null,
+      payDay: income.payDay ?? null,
       notes: income.notes ?? null,
+      externalId: income.externalId ?? null,
       createdAt: now,
     };
     
@@ -227,9 +488,13 @@ export class PostgresStorage implements IStorage {
       
       const mappedResult = {
         ...result[0],
-        amount: parseFloat(result[0].amount),
+        amount: parseMoney(result[0].amount),
         type: result[0].type as "active" | "passive",
         frequency: result[0].frequency as "monthly" | "bi-weekly" | "weekly" | "annually" | "one-time",
+        startDate: parseDateColumn(result[0].startDate),
+        endDate: result[0].endDate ? parseDateColumn(result[0].endDate) : undefined,
+        payDay: result[0].payDay ?? undefined,
+        externalId: result[0].externalId ?? undefined,
         notes: result[0].notes ?? undefined,
         createdAt: result[0].createdAt ?? new Date(),
       };
@@ -247,9 +512,14 @@ export class PostgresStorage implements IStorage {
     console.log('Update data:', income);
     console.log('User ID:', userId);
     
+    // Amounts are rounded to the income's currency, looked up if not changing
+    const currency = income.amount !== undefined ? income.currency ?? (await this.getIncome(id, userId))?.currency : undefined;
     const updateData = {
       ...income,
-      amount: income.amount?.toString(),
+      amount: income.amount !== undefined ? moneyToString(income.amount, currency) : undefined,
+      startDate: income.startDate ? formatDate(income.startDate) : undefined,
+      // Passing endDate without a value clears it, leaving it out keeps it
+      endDate: income.endDate ? formatDate(income.endDate) : 'endDate' in income ? null : undefined,
       notes: income.notes ?? null,
     };
     
@@ -284,17 +554,107 @@ export class PostgresStorage implements IStorage {
     }
   }
 
+  private mapIncomeReceipt(receipt: typeof incomeReceipts.$inferSelect): IncomeReceipt {
+    return {
+      ...receipt,
+      expectedDate: parseDateColumn(receipt.expectedDate),
+      receivedDate: parseDateColumn(receipt.receivedDate),
+      amount: parseMoney(receipt.amount),
+      notes: receipt.notes ?? undefined,
+      createdAt: receipt.createdAt ?? new Date(),
+    };
+  }
+
+  async getIncomeReceipts(userId: number, from: Date, to: Date): Promise<IncomeReceipt[]> {
+    console.log('Getting income receipts:', { userId, from, to });
+    const result = await db
+      .select()
+      .from(incomeReceipts)
+      .where(and(
+        eq(incomeReceipts.userId, userId),
+        gte(incomeReceipts.expectedDate, formatDate(from)),
+        lte(incomeReceipts.expectedDate, formatDate(to))
+      ))
+      .orderBy(asc(incomeReceipts.expectedDate));
+    return result.map(receipt => this.mapIncomeReceipt(receipt));
+  }
+
+  async recordIncomeReceipt(receipt: Omit<IncomeReceipt, "id" | "createdAt">): Promise<IncomeReceipt> {
+    console.log('Recording income receipt:', receipt);
+    const income = await this.getIncome(receipt.incomeId, receipt.userId);
+    const receiptData = {
+      receivedDate: formatDate(receipt.receivedDate),
+      amount: moneyToString(receipt.amount, income?.currency),
+      notes: receipt.notes ?? null,
+    };
+    try {
+      // Marking the same expected payment again corrects the earlier entry
+      const result = await db
+        .insert(incomeReceipts)
+        .values({
+          id: uuidv4(),
+          incomeId: receipt.incomeId,
+          userId: receipt.userId,
+          expectedDate: formatDate(receipt.expectedDate),
+          ...receiptData,
+          createdAt: new Date(),
+        })
+        .onConflictDoUpdate({
+          target: [incomeReceipts.incomeId, incomeReceipts.expectedDate],
+          set: receiptData,
+        })
+        .returning();
+      console.log('Record income receipt result:', result[0]);
+      return this.mapIncomeReceipt(result[0]);
+    } catch (error) {
+      console.error('Error recording income receipt:', error);
+      throw error;
+    }
+  }
+
   // Expense methods
+  private mapExpense(expense: typeof expenses.$inferSelect): Expense {
+    return {
+      ...expense,
+      amount: parseMoney(expense.amount),
+      notes: expense.notes ?? undefined,
+      recurringExpenseId: expense.recurringExpenseId ?? undefined,
+      externalId: expense.externalId ?? undefined,
+      createdAt: expense.createdAt ?? new Date(),
+    };
+  }
+
   async getAllExpenses(userId: number): Promise<Expense[]> {
     console.log('Getting all expenses for user:', userId);
     const result = await db.select().from(expenses).where(eq(expenses.userId, userId));
     console.log('All expenses result:', result);
-    return result.map(expense => ({
-      ...expense,
-      amount: parseFloat(expense.amount),
-      notes: expense.notes ?? undefined,
-      createdAt: expense.createdAt ?? new Date(),
-    }));
+    return result.map(expense => this.mapExpense(expense));
+  }
+
+  async listExpenses(userId: number, query: ExpenseListQuery): Promise<Page<Expense>> {
+    console.log('Listing expenses:', { userId, query });
+    const sortColumn = {
+      date: expenses.date,
+      amount: expenses.amount,
+      category: expenses.category,
+      description: expenses.description,
+      createdAt: expenses.createdAt,
+    }[query.sort];
+    const rows = await withPageLimit(db
+      .select({ expense: expenses, sortValue: sortValue(sortColumn) })
+      .from(expenses)
+      .where(and(
+        eq(expenses.userId, userId),
+        query.from ? gte(expenses.date, query.from) : undefined,
+        query.to ? lt(expenses.date, addDays(query.to, 1)) : undefined,
+        query.minAmount !== undefined ? gte(expenses.amount, String(query.minAmount)) : undefined,
+        query.maxAmount !== undefined ? lte(expenses.amount, String(query.maxAmount)) : undefined,
+        query.category ? equalsIgnoringCase(expenses.category, query.category) : undefined,
+        query.q ? containsText(query.q, expenses.description, expenses.notes) : undefined,
+        afterCursor(sortColumn, expenses.id, query.cursor)
+      ))
+      .orderBy(...pageOrder(sortColumn, expenses.id, query.order)), query);
+    return toPage(rows.map(row => ({ item: this.mapExpense(row.expense), sortValue: row.sortValue })), query);
   }
 
   async getExpense(id: string, userId: number): Promise<Expense | undefined> {
@@ -308,8 +668,10 @@ export class PostgresStorage implements IStorage {
     
     return {
       ...result[0],
-      amount: parseFloat(result[0].amount),
+      amount: parseMoney(result[0].amount),
       notes: result[0].notes ?? undefined,
+      recurringExpenseId: result[0].recurringExpenseId ?? undefined,
+      externalId: result[0].externalId ?? undefined,
       createdAt: result[0].createdAt ?? new Date(),
     };
   }
@@ -318,11 +680,15 @@ export class PostgresStorage implements IStorage {
     console.log('Creating expense:', expense);
     const id = uuidv4();
     const now = new Date();
+    const currency = expense.currency ?? await this.getBaseCurrency(expense.userId);
     const expenseData = {
       id,
       ...expense,
-      amount: expense.amount.toString(),
+      amount: moneyToString(expense.amount, currency),
+      currency,
       notes: expense.notes ?? null,
+      recurringExpenseId: expense.recurringExpenseId ?? null,
+      externalId: expense.externalId ?? null,
       createdAt: now,
     };
     try {
@@ -330,8 +696,10 @@ export class PostgresStorage implements IStorage {
       console.log('Create expense result:', result[0]);
       return {
         ...result[0],
-        amount: parseFloat(result[0].amount),
+        amount: parseMoney(result[0].amount),
         notes: result[0].notes ?? undefined,
+        recurringExpenseId: result[0].recurringExpenseId ?? undefined,
+        externalId: result[0].externalId ?? undefined,
       };
     } catch (error) {
       console.error('Error creating expense:', error);
@@ -341,9 +709,10 @@ export class PostgresStorage implements IStorage {
 
   async updateExpense(id: string, expense: Partial<Omit<Expense, "id" | "createdAt">>, userId: number): Promise<void> {
     console.log('Updating expense:', { id, expense, userId });
+    const currency = expense.amount !== undefined ? expense.currency ?? (await this.getExpense(id, userId))?.currency : undefined;
     const updateData = {
       ...expense,
-      amount: expense.amount?.toString(),
+      amount: expense.amount !== undefined ? moneyToString(expense.amount, currency) : undefined,
       notes: expense.notes ?? null,
     };
     try {
@@ -370,18 +739,329 @@ export class PostgresStorage implements IStorage {
     }
   }
 
+  async getExpenseTotals(userId: number, from: Date, to: Date, period?: ExpenseTotalPeriod, filter: ExpenseTotalFilter = {}): Promise<ExpenseTotal[]> {
+    console.log('Getting expense totals:', { userId, from, to, period, filter });
+    // The unit is inlined rather than bound so the select and group by
+    // expressions are identical
+    const periodStart = period
+      ? sql<string | null>`date_trunc(${sql.raw(`'${period}'`)}, ${expenses.date})::date::text`
+      : sql<string | null>`null`;
+    // Postgres rejects a constant in group by and order by
+    const groups = [...(period ? [periodStart] : []), expenses.category, expenses.currency];
+    const result = await db
+      .select({
+        periodStart,
+        category: expenses.category,
+        currency: expenses.currency,
+        total: sql<string>`sum(${expenses.amount})::text`,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(expenses)
+      .where(and(
+        eq(expenses.userId, userId),
+        gte(expenses.date, from),
+        lt(expenses.date, to),
+        filter.category ? equalsIgnoringCase(expenses.category, filter.category) : undefined,
+        filter.q ? containsText(filter.q, expenses.description, expenses.notes) : undefined
+      ))
+      .groupBy(...groups)
+      .orderBy(...groups);
+    return result.map(row => ({
+      periodStart: row.periodStart ?? undefined,
+      category: row.category,
+      currency: row.currency,
+      total: parseMoney(row.total),
+      count: row.count,
+    }));
+  }
+
+  async getExpensesBetween(userId: number, from: Date, to: Date): Promise<Expense[]> {
+    console.log('Getting expenses between:', { userId, from, to });
+    const result = await db
+      .select()
+      .from(expenses)
+      .where(and(eq(expenses.userId, userId), gte(expenses.date, from), lt(expenses.date, to)))
+      .orderBy(asc(expenses.date));
+    return result.map(expense => ({
+      ...expense,
+      amount: parseMoney(expense.amount),
+      notes: expense.notes ?? undefined,
+      recurringExpenseId: expense.recurringExpenseId ?? undefined,
+      externalId: expense.externalId ?? undefined,
+      createdAt: expense.createdAt ?? new Date(),
+    }));
+  }
+
+  // Recurring expense methods
+  private mapRecurringExpense(recurringExpense: typeof recurringExpenses.$inferSelect): RecurringExpense {
+    return {
+      ...recurringExpense,
+      amount: parseMoney(recurringExpense.amount),
+      cadence: recurringExpense.cadence as RecurringExpense["cadence"],
+      startDate: parseDateColumn(recurringExpense.startDate),
+      nextDueDate: parseDateColumn(recurringExpense.nextDueDate),
+      endDate: recurringExpense.endDate ? parseDateColumn(recurringExpense.endDate) : undefined,
+      payDay: recurringExpense.payDay ?? undefined,
+      status: recurringExpense.status as RecurringExpense["status"],
+      notes: recurringExpense.notes ?? undefined,
+      createdAt: recurringExpense.createdAt ?? new Date(),
+    };
+  }
+
+  async getAllRecurringExpenses(userId: number): Promise<RecurringExpense[]> {
+    console.log('Getting all recurring expenses for user:', userId);
+    const result = await db
+      .select()
+      .from(recurringExpenses)
+      .where(eq(recurringExpenses.userId, userId))
+      .orderBy(asc(recurringExpenses.nextDueDate));
+    return result.map(recurringExpense => this.mapRecurringExpense(recurringExpense));
+  }
+
+  async getRecurringExpense(id: string, userId: number): Promise<RecurringExpense | undefined> {
+    console.log('Getting recurring expense:', { id, userId });
+    const result = await db
+      .select()
+      .from(recurringExpenses)
+      .where(and(eq(recurringExpenses.id, id), eq(recurringExpenses.userId, userId)));
+    return result[0] ? this.mapRecurringExpense(result[0]) : undefined;
+  }
+
+  async createRecurringExpense(recurringExpense: Omit<RecurringExpense, "id" | "createdAt">): Promise<RecurringExpense> {
+    console.log('Creating recurring expense:', recurringExpense);
+    const currency = recurringExpense.currency ?? await this.getBaseCurrency(recurringExpense.userId);
+    const recurringExpenseData = {
+      id: uuidv4(),
+      ...recurringExpense,
+      amount: moneyToString(recurringExpense.amount, currency),
+      currency,
+      startDate: formatDate(recurringExpense.startDate),
+      nextDueDate: formatDate(recurringExpense.nextDueDate),
+      endDate: recurringExpense.endDate ? formatDate(recurringExpense.endDate) : null,
+      payDay: recurringExpense.payDay ?? null,
+      notes: recurringExpense.notes ?? null,
+      createdAt: new Date(),
+    };
+    try {
+      const result = await db.insert(recurringExpenses).values(recurringExpenseData).returning();
+      console.log('Create recurring expense result:', result[0]);
+      return this.mapRecurringExpense(result[0]);
+    } catch (error) {
+      console.error('Error creating recurring expense:', error);
+      throw error;
+    }
+  }
+
+  async updateRecurringExpense(id: string, recurringExpense: Partial<Omit<RecurringExpense, "id" | "userId" | "createdAt">>, userId: number): Promise<void> {
+    console.log('Updating recurring expense:', { id, recurringExpense, userId });
+    const currency = recurringExpense.amount !== undefined ? recurringExpense.currency ?? (await this.getRecurringExpense(id, userId))?.currency : undefined;
+    const updateData = {
+      ...recurringExpense,
+      amount: recurringExpense.amount !== undefined ? moneyToString(recurringExpense.amount, currency) : undefined,
+      startDate: recurringExpense.startDate ? formatDate(recurringExpense.startDate) : undefined,
+      nextDueDate: recurringExpense.nextDueDate ? formatDate(recurringExpense.nextDueDate) : undefined,
+      endDate: recurringExpense.endDate ? formatDate(recurringExpense.endDate) : 'endDate' in recurringExpense ? null : undefined,
+    };
+    try {
+      const result = await db
+        .update(recurringExpenses)
+        .set(updateData)
+        .where(and(eq(recurringExpenses.id, id), eq(recurringExpenses.userId, userId)))
+        .returning();
+      console.log('Update recurring expense result:', result);
+    } catch (error) {
+      console.error('Error updating recurring expense:', error);
+      throw error;
+    }
+  }
+
+  async deleteRecurringExpense(id: string, userId: number): Promise<void> {
+    console.log('Deleting recurring expense:', { id, userId });
+    try {
+      await db.delete(recurringExpenses).where(and(eq(recurringExpenses.id, id), eq(recurringExpenses.userId, userId)));
+      console.log('Recurring expense deleted successfully');
+    } catch (error) {
+      console.error('Error deleting recurring expense:', error);
+      throw error;
+    }
+  }
+
+  async getDueRecurringExpenses(asOf: Date): Promise<RecurringExpense[]> {
+    const result = await db
+      .select()
+      .from(recurringExpenses)
+      .where(and(eq(recurringExpenses.status, "active"), lte(recurringExpenses.nextDueDate, formatDate(asOf))));
+    return result.map(recurringExpense => this.mapRecurringExpense(recurringExpense));
+  }
+
+  async advanceRecurringExpense(id: string, dueDate: Date, nextDueDate: Date, status: RecurringExpense["status"]): Promise<boolean> {
+    const result = await db
+      .update(recurringExpenses)
+      .set({ nextDueDate: formatDate(nextDueDate), status })
+      .where(and(eq(recurringExpenses.id, id), eq(recurringExpenses.nextDueDate, formatDate(dueDate))))
+      .returning();
+    return result.length > 0;
+  }
+
+  async chargeRecurringExpense(id: string, dueDate: Date, nextDueDate: Date, status: RecurringExpense["status"], expense: Omit<Expense, "id" | "createdAt">): Promise<Expense | undefined> {
+    console.log('Charging recurring expense:', { id, dueDate, nextDueDate, status });
+    const currency = expense.currency ?? await this.getBaseCurrency(expense.userId);
+    try {
+      const result = await db.transaction(async (tx) => {
+        const advanced = await tx
+          .update(recurringExpenses)
+          .set({ nextDueDate: formatDate(nextDueDate), status })
+          .where(and(eq(recurringExpenses.id, id), eq(recurringExpenses.nextDueDate, formatDate(dueDate))))
+          .returning();
+        if (advanced.length === 0) return undefined;
+
+        const inserted = await tx.insert(expenses).values({
+          id: uuidv4(),
+          ...expense,
+          amount: moneyToString(expense.amount, currency),
+          currency,
+          notes: expense.notes ?? null,
+          recurringExpenseId: id,
+          externalId: expense.externalId ?? null,
+          createdAt: new Date(),
+        }).returning();
+        return inserted[0];
+      });
+      if (!result) return undefined;
+      return {
+        ...result,
+        amount: parseMoney(result.amount),
+        notes: result.notes ?? undefined,
+        recurringExpenseId: result.recurringExpenseId ?? undefined,
+        externalId: result.externalId ?? undefined,
+      };
+    } catch (error) {
+      console.error('Error charging recurring expense:', error);
+      throw error;
+    }
+  }
+
+  // Budget methods
+  private mapBudget(budget: typeof budgets.$inferSelect): Budget {
+    return {
+      ...budget,
+      limitAmount: parseMoney(budget.limitAmount),
+      createdAt: budget.createdAt ?? new Date(),
+    };
+  }
+
+  async getBudgets(userId: number, month?: string): Promise<Budget[]> {
+    console.log('Getting budgets:', { userId, month });
+    const result = await db
+      .select()
+      .from(budgets)
+      .where(month ? and(eq(budgets.userId, userId), eq(budgets.month, month)) : eq(budgets.userId, userId))
+      .orderBy(asc(budgets.month), asc(budgets.category));
+    return result.map(budget => this.mapBudget(budget));
+  }
+
+  async getBudget(id: string, userId: number): Promise<Budget | undefined> {
+    console.log('Getting budget:', { id, userId });
+    const result = await db
+      .select()
+      .from(budgets)
+      .where(and(eq(budgets.id, id), eq(budgets.userId, userId)));
+    return result[0] ? this.mapBudget(result[0]) : undefined;
+  }
+
+  async createBudget(budget: Omit<Budget, "id" | "createdAt">): Promise<Budget> {
+    console.log('Creating budget:', budget);
+    const currency = budget.currency ?? await this.getBaseCurrency(budget.userId);
+    const budgetData = {
+      id: uuidv4(),
+      ...budget,
+      limitAmount: moneyToString(budget.limitAmount, currency),
+      currency,
+      createdAt: new Date(),
+    };
+    try {
+      const result = await db.insert(budgets).values(budgetData).returning();
+      console.log('Create budget result:', result[0]);
+      return this.mapBudget(result[0]);
+    } catch (error) {
+      console.error('Error creating budget:', error);
+      throw error;
+    }
+  }
+
+  async updateBudget(id: string, budget: Partial<Omit<Budget, "id" | "userId" | "createdAt">>, userId: number): Promise<void> {
+    console.log('Updating budget:', { id, budget, userId });
+    const currency = budget.limitAmount !== undefined ? budget.currency ?? (await this.getBudget(id, userId))?.currency : undefined;
+    const updateData = {
+      ...budget,
+      limitAmount: budget.limitAmount !== undefined ? moneyToString(budget.limitAmount, currency) : undefined,
+    };
+    try {
+      const result = await db
+        .update(budgets)
+        .set(updateData)
+        .where(and(eq(budgets.id, id), eq(budgets.userId, userId)))
+        .returning();
+      console.log('Update budget result:', result);
+    } catch (error) {
+      console.error('Error updating budget:', error);
+      throw error;
+    }
+  }
+
+  async deleteBudget(id: string, userId: number): Promise<void> {
+    console.log('Deleting budget:', { id, userId });
+    try {
+      await db.delete(budgets).where(and(eq(budgets.id, id), eq(budgets.userId, userId)));
+      console.log('Budget deleted successfully');
+    } catch (error) {
+      console.error('Error deleting budget:', error);
+      throw error;
+    }
+  }
+
   // Asset methods
+  private mapAsset(asset: typeof assets.$inferSelect): Asset {
+    return {
+      ...asset,
+      value: parseMoney(asset.value),
+      incomeGenerated: parseMoney(asset.incomeGenerated),
+      accountId: asset.accountId ?? undefined,
+      notes: asset.notes ?? undefined,
+      createdAt: asset.createdAt ?? new Date(),
+    };
+  }
+
   async getAllAssets(userId: number): Promise<Asset[]> {
     console.log('Getting all assets for user:', userId);
     const result = await db.select().from(assets).where(eq(assets.userId, userId));
     console.log('All assets result:', result);
-    return result.map(asset => ({
-      ...asset,
-      value: parseFloat(asset.value),
-      incomeGenerated: parseFloat(asset.incomeGenerated),
-      notes: asset.notes ?? undefined,
-      createdAt: asset.createdAt ?? new Date(),
-    }));
+    return result.map(asset => this.mapAsset(asset));
+  }
+
+  async listAssets(userId: number, query: AssetListQuery): Promise<Page<Asset>> {
+    console.log('Listing assets:', { userId, query });
+    const sortColumn = {
+      createdAt: assets.createdAt,
+      name: assets.name,
+      category: assets.category,
+      value: assets.value,
+    }[query.sort];
+    const rows = await withPageLimit(db
+      .select({ asset: assets, sortValue: sortValue(sortColumn) })
+      .from(assets)
+      .where(and(
+        eq(assets.userId, userId),
+        query.from ? gte(assets.createdAt, query.from) : undefined,
+        query.to ? lt(assets.createdAt, addDays(query.to, 1)) : undefined,
+        query.minAmount !== undefined ? gte(assets.value, String(query.minAmount)) : undefined,
+        query.maxAmount !== undefined ? lte(assets.value, String(query.maxAmount)) : undefined,
+        query.category ? equalsIgnoringCase(assets.category, query.category) : undefined,
+        query.q ? containsText(query.q, assets.name, assets.notes) : undefined,
+        afterCursor(sortColumn, assets.id, query.cursor)
+      ))
+      .orderBy(...pageOrder(sortColumn, assets.id, query.order)), query);
+    return toPage(rows.map(row => ({ item: this.mapAsset(row.asset), sortValue: row.sortValue })), query);
   }
 
   async getAsset(id: string, userId: number): Promise<Asset | undefined> {
@@ -395,8 +1075,9 @@ export class PostgresStorage implements IStorage {
     
     return {
       ...result[0],
-      value: parseFloat(result[0].value),
-      incomeGenerated: parseFloat(result[0].incomeGenerated),
+      value: parseMoney(result[0].value),
+      incomeGenerated: parseMoney(result[0].incomeGenerated),
+      accountId: result[0].accountId ?? undefined,
       notes: result[0].notes ?? undefined,
       createdAt: result[0].createdAt ?? new Date(),
     };
@@ -406,21 +1087,34 @@ export class PostgresStorage implements IStorage {
     console.log('Creating asset:', asset);
     const id = uuidv4();
     const now = new Date();
+    const currency = asset.currency ?? await this.getBaseCurrency(asset.userId);
     const assetData = {
       id,
       ...asset,
-      value: asset.value.toString(),
-      incomeGenerated: asset.incomeGenerated.toString(),
+      value: moneyToString(asset.value, currency),
+      currency,
+      incomeGenerated: moneyToString(asset.incomeGenerated, currency),
+      accountId: asset.accountId ?? null,
       notes: asset.notes ?? null,
       createdAt: now,
     };
     try {
       const result = await db.insert(assets).values(assetData).returning();
       console.log('Create asset result:', result[0]);
+      await db.insert(assetValuations).values({
+        id: uuidv4(),
+        assetId: id,
+        userId: asset.userId,
+        value: assetData.value,
+        valuationDate: formatDate(now),
+        note: 'initial',
+        createdAt: now,
+      });
       return {
         ...result[0],
-        value: parseFloat(result[0].value),
-        incomeGenerated: parseFloat(result[0].incomeGenerated),
+        value: parseMoney(result[0].value),
+        incomeGenerated: parseMoney(result[0].incomeGenerated),
+        accountId: result[0].accountId ?? undefined,
         notes: result[0].notes ?? undefined,
       };
     } catch (error) {
@@ -431,19 +1125,55 @@ export class PostgresStorage implements IStorage {
 
   async updateAsset(id: string, asset: Partial<Omit<Asset, "id" | "createdAt">>, userId: number): Promise<void> {
     console.log('Updating asset:', { id, asset, userId });
-    const updateData = {
-      ...asset,
-      value: asset.value?.toString(),
-      incomeGenerated: asset.incomeGenerated?.toString(),
-      notes: asset.notes ?? null,
-    };
     try {
-      const result = await db
-        .update(assets)
-        .set(updateData)
-        .where(and(eq(assets.id, id), eq(assets.userId, userId)))
-        .returning();
-      console.log('Update asset result:', result);
+      const existing = await this.getAsset(id, userId);
+      const currency = asset.currency ?? existing?.currency;
+      // A new currency relabels the asset, e.g. to correct one entered
+      // wrong, so amounts left out of the update are kept but rounded to it
+      const currencyChanged = existing !== undefined && currency !== existing.currency;
+      const value = asset.value ?? (currencyChanged ? existing.value : undefined);
+      const incomeGenerated = asset.incomeGenerated ?? (currencyChanged ? existing.incomeGenerated : undefined);
+      const updateData = {
+        ...asset,
+        value: value !== undefined ? moneyToString(value, currency) : undefined,
+        incomeGenerated: incomeGenerated !== undefined ? moneyToString(incomeGenerated, currency) : undefined,
+        notes: asset.notes ?? null,
+      };
+      // The row, its valuation history and the goals linked to it change
+      // together or not at all
+      const linkedGoalIds = await this.getGoalIdsLinkedTo(id, userId);
+      await db.transaction(async (tx) => {
+        const result = await tx
+          .update(assets)
+          .set(updateData)
+          .where(and(eq(assets.id, id), eq(assets.userId, userId)))
+          .returning();
+        console.log('Update asset result:', result);
+        if (currencyChanged) {
+          // Valuations are in their asset's currency, so the history is
+          // relabeled with it
+          await tx
+            .update(assetValuations)
+            .set({ value: sql`ROUND(${assetValuations.value}, ${currencyDecimals(currency)})` })
+            .where(and(eq(assetValuations.assetId, id), eq(assetValuations.userId, userId)));
+        }
+        const valueChanged = existing !== undefined && updateData.value !== undefined && parseMoney(updateData.value) !== existing.value;
+        if (valueChanged) {
+          const now = new Date();
+          await tx.insert(assetValuations).values({
+            id: uuidv4(),
+            assetId: id,
+            userId,
+            value: updateData.value!,
+            valuationDate: formatDate(now),
+            createdAt: now,
+          });
+        }
+        // Linked goals hold the asset's value in their own currency
+        if (valueChanged || currencyChanged) {
+          await this.syncLinkedGoals(userId, linkedGoalIds, id, tx);
+        }
+      });
     } catch (error) {
       console.error('Error updating asset:', error);
       throw error;
@@ -453,26 +1183,182 @@ export class PostgresStorage implements IStorage {
   async deleteAsset(id: string, userId: number): Promise<void> {
     console.log('Deleting asset:', { id, userId });
     try {
+      const linkedGoalIds = await this.getGoalIdsLinkedTo(id, userId);
       await db.delete(assets).where(and(eq(assets.id, id), eq(assets.userId, userId)));
       console.log('Asset deleted successfully');
+      await this.syncLinkedGoals(userId, linkedGoalIds);
     } catch (error) {
       console.error('Error deleting asset:', error);
       throw error;
     }
   }
 
+  async getAssetValuations(assetId: string, userId: number): Promise<AssetValuation[]> {
+    console.log('Getting asset valuations:', { assetId, userId });
+    const result = await db
+      .select()
+      .from(assetValuations)
+      .where(and(eq(assetValuations.assetId, assetId), eq(assetValuations.userId, userId)))
+      .orderBy(asc(assetValuations.valuationDate), asc(assetValuations.createdAt));
+    return result.map(valuation => ({
+      ...valuation,
+      value: parseMoney(valuation.value),
+      valuationDate: parseDateColumn(valuation.valuationDate),
+      note: valuation.note ?? undefined,
+      createdAt: valuation.createdAt ?? new Date(),
+    }));
+  }
+
+  async getAssetValuationsAsOf(userId: number, asOf: Date): Promise<AssetValuation[]> {
+    console.log('Getting asset valuations as of:', { userId, asOf });
+    const result = await db
+      .selectDistinctOn([assetValuations.assetId])
+      .from(assetValuations)
+      .where(and(eq(assetValuations.userId, userId), lte(assetValuations.valuationDate, formatDate(asOf))))
+      .orderBy(assetValuations.assetId, desc(assetValuations.valuationDate), desc(assetValuations.createdAt));
+    return result.map(valuation => ({
+      ...valuation,
+      value: parseMoney(valuation.value),
+      valuationDate: parseDateColumn(valuation.valuationDate),
+      note: valuation.note ?? undefined,
+      createdAt: valuation.createdAt ?? new Date(),
+    }));
+  }
+
+  async getFirstAssetValuations(userId: number, assetIds: string[]): Promise<AssetValuation[]> {
+    console.log('Getting first asset valuations:', { userId, assetIds });
+    if (assetIds.length === 0) return [];
+    const result = await db
+      .selectDistinctOn([assetValuations.assetId])
+      .from(assetValuations)
+      .where(and(eq(assetValuations.userId, userId), inArray(assetValuations.assetId, assetIds)))
+      .orderBy(assetValuations.assetId, asc(assetValuations.valuationDate), asc(assetValuations.createdAt));
+    return result.map(valuation => ({
+      ...valuation,
+      value: parseMoney(valuation.value),
+      valuationDate: parseDateColumn(valuation.valuationDate),
+      note: valuation.note ?? undefined,
+      createdAt: valuation.createdAt ?? new Date(),
+    }));
+  }
+
+  // Insert a valuation, moving the asset's current value when it is the
+  // most recent one; returns what a caller needs to finish the change once
+  // the transaction commits
+  private async writeAssetValuation(executor: DbExecutor, valuation: Omit<AssetValuation, "id" | "createdAt">, currency: string | undefined) {
+    const valuationDate = formatDate(valuation.valuationDate);
+    const [previous, next] = await Promise.all([
+      executor.select().from(assetValuations)
+        .where(and(eq(assetValuations.assetId, valuation.assetId), lte(assetValuations.valuationDate, valuationDate)))
+        .orderBy(desc(assetValuations.valuationDate), desc(assetValuations.createdAt))
+        .limit(1),
+      executor.select().from(assetValuations)
+        .where(and(eq(assetValuations.assetId, valuation.assetId), gt(assetValuations.valuationDate, valuationDate)))
+        .orderBy(asc(assetValuations.valuationDate))
+        .limit(1),
+    ]);
+    const result = await executor.insert(assetValuations).values({
+      id: uuidv4(),
+      ...valuation,
+      value: moneyToString(valuation.value, currency),
+      valuationDate,
+      note: valuation.note ?? null,
+      createdAt: new Date(),
+    }).returning();
+    console.log('Add asset valuation result:', result[0]);
+
+    // A back-dated valuation only changes the current value when it is
+    // still the most recent one
+    const latest = !next[0];
+    if (latest) {
+      await executor
+        .update(assets)
+        .set({ value: result[0].value })
+        .where(and(eq(assets.id, valuation.assetId), eq(assets.userId, valuation.userId)));
+    }
+    return { row: result[0], latest, previous: previous[0]?.value, until: next[0]?.valuationDate };
+  }
+
+  private async afterAssetValuation(asset: Asset, written: Awaited<ReturnType<PostgresStorage["writeAssetValuation"]>>): Promise<void> {
+    if (written.latest) {
+      await this.syncLinkedGoals(asset.userId, await this.getGoalIdsLinkedTo(asset.id, asset.userId), asset.id);
+    }
+    await this.reviseNetWorthSnapshots(asset.userId, {
+      side: 'assets',
+      group: asset.category,
+      currency: asset.currency,
+      from: written.row.valuationDate,
+      until: written.until,
+      previous: written.previous !== undefined ? parseMoney(written.previous) : 0,
+      amount: parseMoney(written.row.value),
+    });
+  }
+
+  async addAssetValuation(valuation: Omit<AssetValuation, "id" | "createdAt">): Promise<AssetValuation> {
+    console.log('Adding asset valuation:', valuation);
+    try {
+      const asset = await this.getAsset(valuation.assetId, valuation.userId);
+      const written = await db.transaction(tx => this.writeAssetValuation(tx, valuation, asset?.currency));
+      if (asset) {
+        await this.afterAssetValuation(asset, written);
+      }
+
+      return {
+        ...written.row,
+        value: parseMoney(written.row.value),
+        valuationDate: parseDateColumn(written.row.valuationDate),
+        note: written.row.note ?? undefined,
+      };
+    } catch (error) {
+      console.error('Error adding asset valuation:', error);
+      throw error;
+    }
+  }
+
   // Liability methods
-  async getAllLiabilities(userId: number): Promise<Liability[]> {
-    console.log('Getting all liabilities for user:', userId);
-    const result = await db.select().from(liabilities).where(eq(liabilities.userId, userId));
-    console.log('All liabilities result:', result);
-    return result.map(liability => ({
+  private mapLiability(liability: typeof liabilities.$inferSelect): Liability {
+    return {
       ...liability,
-      amount: parseFloat(liability.amount),
+      amount: parseMoney(liability.amount),
       interestRate: parseFloat(liability.interestRate),
+      minimumPayment: liability.minimumPayment !== null ? parseMoney(liability.minimumPayment) : undefined,
+      accountId: liability.accountId ?? undefined,
       notes: liability.notes ?? undefined,
       createdAt: liability.createdAt ?? new Date(),
-    }));
+    };
+  }
+
+  async getAllLiabilities(userId: number): Promise<Liability[]> {
+    console.log('Getting all liabilities for user:', userId);
+    const result = await db.select().from(liabilities).where(eq(liabilities.userId, userId));
+    console.log('All liabilities result:', result);
+    return result.map(liability => this.mapLiability(liability));
+  }
+
+  async listLiabilities(userId: number, query: LiabilityListQuery): Promise<Page<Liability>> {
+    console.log('Listing liabilities:', { userId, query });
+    const sortColumn = {
+      createdAt: liabilities.createdAt,
+      description: liabilities.description,
+      type: liabilities.type,
+      amount: liabilities.amount,
+      interestRate: liabilities.interestRate,
+    }[query.sort];
+    const rows = await withPageLimit(db
+      .select({ liability: liabilities, sortValue: sortValue(sortColumn) })
+      .from(liabilities)
+      .where(and(
+        eq(liabilities.userId, userId),
+        query.from ? gte(liabilities.createdAt, query.from) : undefined,
+        query.to ? lt(liabilities.createdAt, addDays(query.to, 1)) : undefined,
+        query.minAmount !== undefined ? gte(liabilities.amount, String(query.minAmount)) : undefined,
+        query.maxAmount !== undefined ? lte(liabilities.amount, String(query.maxAmount)) : undefined,
+        query.type ? equalsIgnoringCase(liabilities.type, query.type) : undefined,
+        query.q ? containsText(query.q, liabilities.description, liabilities.notes) : undefined,
+        afterCursor(sortColumn, liabilities.id, query.cursor)
+      ))
+      .orderBy(...pageOrder(sortColumn, liabilities.id, query.order)), query);
+    return toPage(rows.map(row => ({ item: this.mapLiability(row.liability), sortValue: row.sortValue })), query);
   }
 
   async getLiability(id: string, userId: number): Promise<Liability | undefined> {
@@ -486,8 +1372,10 @@ export class PostgresStorage implements IStorage {
     
     return {
       ...result[0],
-      amount: parseFloat(result[0].amount),
+      amount: parseMoney(result[0].amount),
       interestRate: parseFloat(result[0].interestRate),
+      minimumPayment: result[0].minimumPayment !== null ? parseMoney(result[0].minimumPayment) : undefined,
+      accountId: result[0].accountId ?? undefined,
       notes: result[0].notes ?? undefined,
       createdAt: result[0].createdAt ?? new Date(),
     };
@@ -497,22 +1385,37 @@ export class PostgresStorage implements IStorage {
     console.log('Creating liability:', liability);
     const id = uuidv4();
     const now = new Date();
+    const currency = liability.currency ?? await this.getBaseCurrency(liability.userId);
     const liabilityData = {
       id,
       ...liability,
-      amount: liability.amount.toString(),
+      amount: moneyToString(liability.amount, currency),
+      currency,
       interestRate: liability.interestRate.toString(),
+      minimumPayment: liability.minimumPayment !== undefined ? moneyToString(liability.minimumPayment, currency) : null,
+      accountId: liability.accountId ?? null,
       notes: liability.notes ?? null,
       createdAt: now,
     };
     
     const result = await db.insert(liabilities).values(liabilityData).returning();
     if (!result[0]) throw new Error("Failed to create liability");
+    await db.insert(liabilityValuations).values({
+      id: uuidv4(),
+      liabilityId: id,
+      userId: liability.userId,
+      amount: liabilityData.amount,
+      valuationDate: formatDate(now),
+      note: 'initial',
+      createdAt: now,
+    });
     
     return {
       ...result[0],
-      amount: parseFloat(result[0].amount),
+      amount: parseMoney(result[0].amount),
       interestRate: parseFloat(result[0].interestRate),
+      minimumPayment: result[0].minimumPayment !== null ? parseMoney(result[0].minimumPayment) : undefined,
+      accountId: result[0].accountId ?? undefined,
       notes: result[0].notes ?? undefined,
       createdAt: result[0].createdAt ?? new Date(),
     };
@@ -520,19 +1423,49 @@ export class PostgresStorage implements IStorage {
 
   async updateLiability(id: string, liability: Partial<Omit<Liability, "id" | "createdAt">>, userId: number): Promise<void> {
     console.log('Updating liability:', { id, liability, userId });
-    const updateData = {
-      ...liability,
-      amount: liability.amount?.toString(),
-      interestRate: liability.interestRate?.toString(),
-      notes: liability.notes ?? null,
-    };
     try {
-      const result = await db
-        .update(liabilities)
-        .set(updateData)
-        .where(and(eq(liabilities.id, id), eq(liabilities.userId, userId)))
-        .returning();
-      console.log('Update liability result:', result);
+      const existing = await this.getLiability(id, userId);
+      const currency = liability.currency ?? existing?.currency;
+      // As with assets, a new currency relabels the liability and its history
+      const currencyChanged = existing !== undefined && currency !== existing.currency;
+      const amount = liability.amount ?? (currencyChanged ? existing.amount : undefined);
+      const minimumPayment = 'minimumPayment' in liability ? liability.minimumPayment : currencyChanged ? existing.minimumPayment : undefined;
+      const updateData = {
+        ...liability,
+        amount: amount !== undefined ? moneyToString(amount, currency) : undefined,
+        interestRate: liability.interestRate?.toString(),
+        // Passing minimumPayment without a value clears it, leaving it out keeps it
+        minimumPayment: minimumPayment !== undefined
+          ? moneyToString(minimumPayment, currency)
+          : 'minimumPayment' in liability ? null : undefined,
+        notes: liability.notes ?? null,
+      };
+      // The row and its valuation history change together or not at all
+      await db.transaction(async (tx) => {
+        const result = await tx
+          .update(liabilities)
+          .set(updateData)
+          .where(and(eq(liabilities.id, id), eq(liabilities.userId, userId)))
+          .returning();
+        console.log('Update liability result:', result);
+        if (currencyChanged) {
+          await tx
+            .update(liabilityValuations)
+            .set({ amount: sql`ROUND(${liabilityValuations.amount}, ${currencyDecimals(currency)})` })
+            .where(and(eq(liabilityValuations.liabilityId, id), eq(liabilityValuations.userId, userId)));
+        }
+        if (existing && updateData.amount !== undefined && parseMoney(updateData.amount) !== existing.amount) {
+          const now = new Date();
+          await tx.insert(liabilityValuations).values({
+            id: uuidv4(),
+            liabilityId: id,
+            userId,
+            amount: updateData.amount,
+            valuationDate: formatDate(now),
+            createdAt: now,
+          });
+        }
+      });
     } catch (error) {
       console.error('Error updating liability:', error);
       throw error;
@@ -550,18 +1483,148 @@ export class PostgresStorage implements IStorage {
     }
   }
 
+  async getLiabilityValuations(liabilityId: string, userId: number): Promise<LiabilityValuation[]> {
+    console.log('Getting liability valuations:', { liabilityId, userId });
+    const result = await db
+      .select()
+      .from(liabilityValuations)
+      .where(and(eq(liabilityValuations.liabilityId, liabilityId), eq(liabilityValuations.userId, userId)))
+      .orderBy(asc(liabilityValuations.valuationDate), asc(liabilityValuations.createdAt));
+    return result.map(valuation => ({
+      ...valuation,
+      amount: parseMoney(valuation.amount),
+      valuationDate: parseDateColumn(valuation.valuationDate),
+      note: valuation.note ?? undefined,
+      createdAt: valuation.createdAt ?? new Date(),
+    }));
+  }
+
+  async getLiabilityValuationsAsOf(userId: number, asOf: Date): Promise<LiabilityValuation[]> {
+    console.log('Getting liability valuations as of:', { userId, asOf });
+    const result = await db
+      .selectDistinctOn([liabilityValuations.liabilityId])
+      .from(liabilityValuations)
+      .where(and(eq(liabilityValuations.userId, userId), lte(liabilityValuations.valuationDate, formatDate(asOf))))
+      .orderBy(liabilityValuations.liabilityId, desc(liabilityValuations.valuationDate), desc(liabilityValuations.createdAt));
+    return result.map(valuation => ({
+      ...valuation,
+      amount: parseMoney(valuation.amount),
+      valuationDate: parseDateColumn(valuation.valuationDate),
+      note: valuation.note ?? undefined,
+      createdAt: valuation.createdAt ?? new Date(),
+    }));
+  }
+
+  // Insert a balance, moving the liability's current amount when it is the
+  // most recent one; see writeAssetValuation
+  private async writeLiabilityValuation(executor: DbExecutor, valuation: Omit<LiabilityValuation, "id" | "createdAt">, currency: string | undefined) {
+    const valuationDate = formatDate(valuation.valuationDate);
+    const [previous, next] = await Promise.all([
+      executor.select().from(liabilityValuations)
+        .where(and(eq(liabilityValuations.liabilityId, valuation.liabilityId), lte(liabilityValuations.valuationDate, valuationDate)))
+        .orderBy(desc(liabilityValuations.valuationDate), desc(liabilityValuations.createdAt))
+        .limit(1),
+      executor.select().from(liabilityValuations)
+        .where(and(eq(liabilityValuations.liabilityId, valuation.liabilityId), gt(liabilityValuations.valuationDate, valuationDate)))
+        .orderBy(asc(liabilityValuations.valuationDate))
+        .limit(1),
+    ]);
+    const result = await executor.insert(liabilityValuations).values({
+      id: uuidv4(),
+      ...valuation,
+      amount: moneyToString(valuation.amount, currency),
+      valuationDate,
+      note: valuation.note ?? null,
+      createdAt: new Date(),
+    }).returning();
+    console.log('Add liability valuation result:', result[0]);
+
+    // A back-dated balance only changes the current amount when it is
+    // still the most recent one
+    const latest = !next[0];
+    if (latest) {
+      await executor
+        .update(liabilities)
+        .set({ amount: result[0].amount })
+        .where(and(eq(liabilities.id, valuation.liabilityId), eq(liabilities.userId, valuation.userId)));
+    }
+    return { row: result[0], latest, previous: previous[0]?.amount, until: next[0]?.valuationDate };
+  }
+
+  private async afterLiabilityValuation(liability: Liability, written: Awaited<ReturnType<PostgresStorage["writeLiabilityValuation"]>>): Promise<void> {
+    await this.reviseNetWorthSnapshots(liability.userId, {
+      side: 'liabilities',
+      group: liability.type,
+      currency: liability.currency,
+      from: written.row.valuationDate,
+      until: written.until,
+      previous: written.previous !== undefined ? parseMoney(written.previous) : 0,
+      amount: parseMoney(written.row.amount),
+    });
+  }
+
+  async addLiabilityValuation(valuation: Omit<LiabilityValuation, "id" | "createdAt">): Promise<LiabilityValuation> {
+    console.log('Adding liability valuation:', valuation);
+    try {
+      const liability = await this.getLiability(valuation.liabilityId, valuation.userId);
+      const written = await db.transaction(tx => this.writeLiabilityValuation(tx, valuation, liability?.currency));
+      if (liability) {
+        await this.afterLiabilityValuation(liability, written);
+      }
+
+      return {
+        ...written.row,
+        amount: parseMoney(written.row.amount),
+        valuationDate: parseDateColumn(written.row.valuationDate),
+        note: written.row.note ?? undefined,
+      };
+    } catch (error) {
+      console.error('Error adding liability valuation:', error);
+      throw error;
+    }
+  }
+
   // Goal methods
+  private mapGoal(goal: typeof goals.$inferSelect): Goal {
+    return {
+      ...goal,
+      targetAmount: parseMoney(goal.targetAmount),
+      currentAmount: parseMoney(goal.currentAmount),
+      targetDate: new Date(goal.targetDate),
+      createdAt: goal.createdAt ?? new Date(),
+    };
+  }
+
   async getAllGoals(userId: number): Promise<Goal[]> {
     console.log('Getting all goals for user:', userId);
     const result = await db.select().from(goals).where(eq(goals.userId, userId));
     console.log('All goals result:', result);
-    return result.map(goal => ({
-      ...goal,
-      targetAmount: parseFloat(goal.targetAmount),
-      currentAmount: parseFloat(goal.currentAmount),
-      targetDate: new Date(goal.targetDate),
-      createdAt: goal.createdAt ?? new Date(),
-    }));
+    return result.map(goal => this.mapGoal(goal));
+  }
+
+  async listGoals(userId: number, query: GoalListQuery): Promise<Page<Goal>> {
+    console.log('Listing goals:', { userId, query });
+    const sortColumn = {
+      targetDate: goals.targetDate,
+      targetAmount: goals.targetAmount,
+      currentAmount: goals.currentAmount,
+      description: goals.description,
+      createdAt: goals.createdAt,
+    }[query.sort];
+    const rows = await withPageLimit(db
+      .select({ goal: goals, sortValue: sortValue(sortColumn) })
+      .from(goals)
+      .where(and(
+        eq(goals.userId, userId),
+        query.from ? gte(goals.targetDate, formatDate(query.from)) : undefined,
+        query.to ? lte(goals.targetDate, formatDate(query.to)) : undefined,
+        query.minAmount !== undefined ? gte(goals.targetAmount, String(query.minAmount)) : undefined,
+        query.maxAmount !== undefined ? lte(goals.targetAmount, String(query.maxAmount)) : undefined,
+        query.q ? containsText(query.q, goals.description) : undefined,
+        afterCursor(sortColumn, goals.id, query.cursor)
+      ))
+      .orderBy(...pageOrder(sortColumn, goals.id, query.order)), query);
+    return toPage(rows.map(row => ({ item: this.mapGoal(row.goal), sortValue: row.sortValue })), query);
   }
 
   async getGoal(id: string, userId: number): Promise<Goal | undefined> {
@@ -575,8 +1638,8 @@ export class PostgresStorage implements IStorage {
     
     return {
       ...result[0],
-      targetAmount: parseFloat(result[0].targetAmount),
-      currentAmount: parseFloat(result[0].currentAmount),
+      targetAmount: parseMoney(result[0].targetAmount),
+      currentAmount: parseMoney(result[0].currentAmount),
       targetDate: new Date(result[0].targetDate),
       createdAt: result[0].createdAt ?? new Date(),
     };
@@ -586,21 +1649,37 @@ export class PostgresStorage implements IStorage {
     console.log('Creating goal:', goal);
     const id = uuidv4();
     const now = new Date();
+    const currency = goal.currency ?? await this.getBaseCurrency(goal.userId);
     const goalData = {
       id,
       ...goal,
-      targetAmount: goal.targetAmount.toString(),
-      currentAmount: goal.currentAmount.toString(),
+      targetAmount: moneyToString(goal.targetAmount, currency),
+      currentAmount: moneyToString(goal.currentAmount, currency),
+      currency,
       targetDate: goal.targetDate.toISOString(),
       createdAt: now,
     };
     try {
-      const result = await db.insert(goals).values(goalData).returning();
+      const result = await db.transaction(async (tx) => {
+        const inserted = await tx.insert(goals).values(goalData).returning();
+        if (parseMoney(goalData.currentAmount) !== 0) {
+          await tx.insert(goalContributions).values({
+            id: uuidv4(),
+            goalId: id,
+            userId: goal.userId,
+            contributionDate: formatDate(now),
+            amount: goalData.currentAmount,
+            kind: 'initial',
+            createdAt: now,
+          });
+        }
+        return inserted;
+      });
       console.log('Create goal result:', result[0]);
       return {
         ...result[0],
-        targetAmount: parseFloat(result[0].targetAmount),
-        currentAmount: parseFloat(result[0].currentAmount),
+        targetAmount: parseMoney(result[0].targetAmount),
+        currentAmount: parseMoney(result[0].currentAmount),
         targetDate: new Date(result[0].targetDate),
       };
     } catch (error) {
@@ -611,18 +1690,45 @@ export class PostgresStorage implements IStorage {
 
   async updateGoal(id: string, goal: Partial<Omit<Goal, "id" | "createdAt">>, userId: number): Promise<void> {
     console.log('Updating goal:', { id, goal, userId });
-    const updateData = {
-      ...goal,
-      targetAmount: goal.targetAmount?.toString(),
-      currentAmount: goal.currentAmount?.toString(),
-      targetDate: goal.targetDate?.toISOString(),
-    };
     try {
-      const result = await db
-        .update(goals)
-        .set(updateData)
-        .where(and(eq(goals.id, id), eq(goals.userId, userId)))
-        .returning();
+      // Progress on goals linked to assets follows the assets
+      if (goal.currentAmount !== undefined && (await this.getGoalAssets(id, userId)).length > 0) {
+        const { currentAmount, ...rest } = goal;
+        goal = rest;
+      }
+      const existing = await this.getGoal(id, userId);
+      const currency = goal.currency ?? existing?.currency;
+      const updateData = {
+        ...goal,
+        targetAmount: goal.targetAmount !== undefined ? moneyToString(goal.targetAmount, currency) : undefined,
+        currentAmount: goal.currentAmount !== undefined ? moneyToString(goal.currentAmount, currency) : undefined,
+        targetDate: goal.targetDate?.toISOString(),
+      };
+      // Editing the amount directly is booked as an adjustment so the
+      // contributions still add up to it
+      const adjustment = existing && updateData.currentAmount !== undefined
+        ? subtractMoney(parseMoney(updateData.currentAmount), existing.currentAmount, currency)
+        : 0;
+      const result = await db.transaction(async (tx) => {
+        const updated = await tx
+          .update(goals)
+          .set(updateData)
+          .where(and(eq(goals.id, id), eq(goals.userId, userId)))
+          .returning();
+        if (updated.length > 0 && adjustment !== 0) {
+          const now = new Date();
+          await tx.insert(goalContributions).values({
+            id: uuidv4(),
+            goalId: id,
+            userId,
+            contributionDate: formatDate(now),
+            amount: moneyToString(adjustment, currency),
+            kind: 'adjustment',
+            createdAt: now,
+          });
+        }
+        return updated;
+      });
       console.log('Update goal result:', result);
     } catch (error) {
       console.error('Error updating goal:', error);
@@ -640,6 +1746,811 @@ export class PostgresStorage implements IStorage {
       throw error;
     }
   }
+
+  private mapGoalContribution(contribution: typeof goalContributions.$inferSelect): GoalContribution {
+    return {
+      ...contribution,
+      assetId: contribution.assetId ?? undefined,
+      contributionDate: parseDateColumn(contribution.contributionDate),
+      amount: parseMoney(contribution.amount),
+      note: contribution.note ?? undefined,
+      createdAt: contribution.createdAt ?? new Date(),
+    };
+  }
+
+  async getGoalContributions(goalId: string, userId: number): Promise<GoalContribution[]> {
+    console.log('Getting goal contributions:', { goalId, userId });
+    const result = await db
+      .select()
+      .from(goalContributions)
+      .where(and(eq(goalContributions.goalId, goalId), eq(goalContributions.userId, userId)))
+      .orderBy(asc(goalContributions.contributionDate), asc(goalContributions.createdAt));
+    return result.map(contribution => this.mapGoalContribution(contribution));
+  }
+
+  async getAllGoalContributions(userId: number): Promise<GoalContribution[]> {
+    console.log('Getting all goal contributions for user:', userId);
+    const result = await db
+      .select()
+      .from(goalContributions)
+      .where(eq(goalContributions.userId, userId))
+      .orderBy(asc(goalContributions.contributionDate), asc(goalContributions.createdAt));
+    return result.map(contribution => this.mapGoalContribution(contribution));
+  }
+
+  async addGoalContribution(contribution: Omit<GoalContribution, "id" | "createdAt" | "kind">): Promise<GoalContribution> {
+    console.log('Adding goal contribution:', contribution);
+    const goal = await this.getGoal(contribution.goalId, contribution.userId);
+    const amount = moneyToString(contribution.amount, goal?.currency);
+    try {
+      const result = await db.transaction(async (tx) => {
+        const inserted = await tx.insert(goalContributions).values({
+          id: uuidv4(),
+          ...contribution,
+          assetId: contribution.assetId ?? null,
+          contributionDate: formatDate(contribution.contributionDate),
+          amount,
+          kind: 'contribution',
+          note: contribution.note ?? null,
+          createdAt: new Date(),
+        }).returning();
+        await tx
+          .update(goals)
+          .set({ currentAmount: sql`${goals.currentAmount} + ${amount}` })
+          .where(and(eq(goals.id, contribution.goalId), eq(goals.userId, contribution.userId)));
+        return inserted[0];
+      });
+      console.log('Add goal contribution result:', result);
+      return this.mapGoalContribution(result);
+    } catch (error) {
+      console.error('Error adding goal contribution:', error);
+      throw error;
+    }
+  }
+
+  private mapGoalAsset(link: typeof goalAssets.$inferSelect): GoalAsset {
+    return {
+      ...link,
+      percentage: parseFloat(link.percentage),
+      createdAt: link.createdAt ?? new Date(),
+    };
+  }
+
+  async getGoalAssets(goalId: string, userId: number): Promise<GoalAsset[]> {
+    const result = await db
+      .select()
+      .from(goalAssets)
+      .where(and(eq(goalAssets.goalId, goalId), eq(goalAssets.userId, userId)))
+      .orderBy(asc(goalAssets.createdAt));
+    return result.map(link => this.mapGoalAsset(link));
+  }
+
+  async getAllGoalAssets(userId: number): Promise<GoalAsset[]> {
+    const result = await db
+      .select()
+      .from(goalAssets)
+      .where(eq(goalAssets.userId, userId))
+      .orderBy(asc(goalAssets.createdAt));
+    return result.map(link => this.mapGoalAsset(link));
+  }
+
+  async setGoalAssets(goalId: string, userId: number, links: Pick<GoalAsset, "assetId" | "percentage">[]): Promise<GoalAsset[]> {
+    console.log('Setting goal assets:', { goalId, userId, links });
+    try {
+      await db.transaction(async (tx) => {
+        await tx.delete(goalAssets).where(and(eq(goalAssets.goalId, goalId), eq(goalAssets.userId, userId)));
+        if (links.length > 0) {
+          const now = new Date();
+          await tx.insert(goalAssets).values(links.map(link => ({
+            id: uuidv4(),
+            goalId,
+            assetId: link.assetId,
+            userId,
+            percentage: link.percentage.toString(),
+            createdAt: now,
+          })));
+        }
+      });
+      await this.syncLinkedGoals(userId, [goalId]);
+      return this.getGoalAssets(goalId, userId);
+    } catch (error) {
+      console.error('Error setting goal assets:', error);
+      throw error;
+    }
+  }
+
+  private async getGoalIdsLinkedTo(assetId: string, userId: number): Promise<string[]> {
+    const result = await db
+      .select({ goalId: goalAssets.goalId })
+      .from(goalAssets)
+      .where(and(eq(goalAssets.assetId, assetId), eq(goalAssets.userId, userId)));
+    return result.map(link => link.goalId);
+  }
+
+  // Sets each goal's current amount to its share of its linked assets'
+  // values, converted into the goal's currency at today's rate. The change is
+  // booked as a contribution so the ledger keeps adding up; goals with no
+  // links left, or with a linked asset that has no rate to the goal's
+  // currency, keep their last amount. Runs inside `executor` when it is an
+  // open transaction, so the sync commits or rolls back with the change to
+  // the assets.
+  private async syncLinkedGoals(userId: number, goalIds: string[], assetId?: string, executor: DbExecutor = db): Promise<void> {
+    if (goalIds.length === 0) return;
+    const [links, linkedGoals, rates] = await Promise.all([
+      executor
+        .select({ goalId: goalAssets.goalId, percentage: goalAssets.percentage, value: assets.value, currency: assets.currency })
+        .from(goalAssets)
+        .innerJoin(assets, eq(goalAssets.assetId, assets.id))
+        .where(and(eq(goalAssets.userId, userId), inArray(goalAssets.goalId, goalIds))),
+      executor
+        .select()
+        .from(goals)
+        .where(and(eq(goals.userId, userId), inArray(goals.id, goalIds))),
+      this.getExchangeRates(userId),
+    ]);
+
+    for (const goal of linkedGoals) {
+      const goalLinks = links.filter(link => link.goalId === goal.id);
+      if (goalLinks.length === 0) continue;
+
+      // Each asset's share is rounded on its own, as it would be if moved out
+      const converter = new CurrencyConverter(goal.currency, rates);
+      const shares = goalLinks.map(link => converter.convert(parseMoney(link.value) * parseFloat(link.percentage) / 100, link.currency));
+      if (shares.some(share => share === undefined)) {
+        const missingCurrencies = goalLinks.filter((_, index) => shares[index] === undefined).map(link => link.currency);
+        console.warn('Linked goal left unchanged, no exchange rate for:', { goalId: goal.id, currency: goal.currency, missingCurrencies });
+        continue;
+      }
+      const currentAmount = sumMoney(shares as number[], goal.currency);
+      const change = subtractMoney(currentAmount, parseMoney(goal.currentAmount), goal.currency);
+      if (change === 0) continue;
+
+      console.log('Updating linked goal:', { goalId: goal.id, currentAmount });
+      const now = new Date();
+      await executor.transaction(async (tx) => {
+        await tx.update(goals).set({ currentAmount: moneyToString(currentAmount, goal.currency) }).where(eq(goals.id, goal.id));
+        await tx.insert(goalContributions).values({
+          id: uuidv4(),
+          goalId: goal.id,
+          userId,
+          assetId: assetId ?? null,
+          contributionDate: formatDate(now),
+          amount: moneyToString(change, goal.currency),
+          kind: 'linked',
+          createdAt: now,
+        });
+      });
+    }
+  }
+
+  // Import methods
+  async importRecords(records: ImportRecords): Promise<{ expenses: number; incomes: number; duplicates: number }> {
+    // Statements are in the user's base currency unless a row says otherwise
+    const userId = records.expenses?.[0]?.userId ?? records.incomes?.[0]?.userId
+      ?? records.assetValuations?.[0]?.userId ?? records.liabilityValuations?.[0]?.userId;
+    const baseCurrency = userId === undefined ? DEFAULT_CURRENCY : await this.getBaseCurrency(userId);
+    const expenseRows = (records.expenses ?? []).map(expense => ({
+      id: uuidv4(),
+      ...expense,
+      amount: moneyToString(expense.amount, expense.currency ?? baseCurrency),
+      currency: expense.currency ?? baseCurrency,
+      notes: expense.notes ?? null,
+      recurringExpenseId: expense.recurringExpenseId ?? null,
+      externalId: expense.externalId ?? null,
+      createdAt: new Date(),
+    }));
+    const incomeRows = (records.incomes ?? []).map(income => ({
+      id: uuidv4(),
+      ...income,
+      amount: moneyToString(income.amount, income.currency ?? baseCurrency),
+      currency: income.currency ?? baseCurrency,
+      startDate: formatDate(income.startDate),
+      endDate: income.endDate ? formatDate(income.endDate) : null,
+      payDay: income.payDay ?? null,
+      notes: income.notes ?? null,
+      externalId: income.externalId ?? null,
+      createdAt: new Date(),
+    }));
+    const assetValuationRows = records.assetValuations ?? [];
+    const liabilityValuationRows = records.liabilityValuations ?? [];
+    console.log('Importing records:', {
+      expenses: expenseRows.length,
+      incomes: incomeRows.length,
+      assetValuations: assetValuationRows.length,
+      liabilityValuations: liabilityValuationRows.length,
+    });
+    const [userAssets, userLiabilities] = userId === undefined ? [[], []] : await Promise.all([
+      assetValuationRows.length > 0 ? this.getAllAssets(userId) : [],
+      liabilityValuationRows.length > 0 ? this.getAllLiabilities(userId) : [],
+    ]);
+
+    try {
+      // A concurrent import of the same statement may have written some rows
+      // since they were checked; those are skipped rather than failing the rest
+      const result = await db.transaction(async (tx) => {
+        const insertedExpenses = expenseRows.length > 0
+          ? await tx.insert(expenses).values(expenseRows)
+            .onConflictDoNothing({ target: [expenses.userId, expenses.externalId] })
+            .returning({ id: expenses.id })
+          : [];
+        const insertedIncomes = incomeRows.length > 0
+          ? await tx.insert(incomes).values(incomeRows)
+            .onConflictDoNothing({ target: [incomes.userId, incomes.externalId] })
+            .returning({ id: incomes.id })
+          : [];
+
+        const writtenAssets = [];
+        for (const valuation of assetValuationRows) {
+          const asset = userAssets.find(candidate => candidate.id === valuation.assetId);
+          if (!asset) continue;
+          writtenAssets.push({ asset, written: await this.writeAssetValuation(tx, valuation, asset.currency) });
+        }
+        const writtenLiabilities = [];
+        for (const valuation of liabilityValuationRows) {
+          const liability = userLiabilities.find(candidate => candidate.id === valuation.liabilityId);
+          if (!liability) continue;
+          writtenLiabilities.push({ liability, written: await this.writeLiabilityValuation(tx, valuation, liability.currency) });
+        }
+        return { insertedExpenses, insertedIncomes, writtenAssets, writtenLiabilities };
+      });
+
+      for (const { asset, written } of result.writtenAssets) {
+        await this.afterAssetValuation(asset, written);
+      }
+      for (const { liability, written } of result.writtenLiabilities) {
+        await this.afterLiabilityValuation(liability, written);
+      }
+      return {
+        expenses: result.insertedExpenses.length,
+        incomes: result.insertedIncomes.length,
+        duplicates: expenseRows.length + incomeRows.length - result.insertedExpenses.length - result.insertedIncomes.length,
+      };
+    } catch (error) {
+      console.error('Error importing records:', error);
+      throw error;
+    }
+  }
+
+  async restoreRecords(userId: number, records: RestoreRecords, mode: 'merge' | 'replace'): Promise<void> {
+    console.log('Restoring records:', {
+      userId,
+      mode,
+      incomes: records.incomes.length,
+      expenses: records.expenses.length,
+      assets: records.assets.length,
+      liabilities: records.liabilities.length,
+      goals: records.goals.length,
+      goalAssets: records.goalAssets.length,
+      goalContributions: records.goalContributions.length,
+    });
+    const today = formatDate(new Date());
+    // Bundles exported before currencies existed are in the base currency
+    const baseCurrency = await this.getBaseCurrency(userId);
+
+    try {
+      await db.transaction(async (tx) => {
+        if (mode === 'replace') {
+          // Valuations, income receipts, goal links and goal contributions
+          // cascade with their parents
+          await tx.delete(expenses).where(eq(expenses.userId, userId));
+          await tx.delete(incomes).where(eq(incomes.userId, userId));
+          await tx.delete(assets).where(eq(assets.userId, userId));
+          await tx.delete(liabilities).where(eq(liabilities.userId, userId));
+          await tx.delete(goals).where(eq(goals.userId, userId));
+        }
+
+        if (records.incomes.length > 0) {
+          await tx.insert(incomes).values(records.incomes.map(income => ({
+            ...income,
+            amount: moneyToString(income.amount, income.currency ?? baseCurrency),
+            currency: income.currency ?? baseCurrency,
+            startDate: formatDate(income.startDate),
+            endDate: income.endDate ? formatDate(income.endDate) : null,
+            payDay: income.payDay ?? null,
+            notes: income.notes ?? null,
+            externalId: income.externalId ?? null,
+          })));
+        }
+        if (records.expenses.length > 0) {
+          await tx.insert(expenses).values(records.expenses.map(expense => ({
+            ...expense,
+            amount: moneyToString(expense.amount, expense.currency ?? baseCurrency),
+            currency: expense.currency ?? baseCurrency,
+            notes: expense.notes ?? null,
+            recurringExpenseId: expense.recurringExpenseId ?? null,
+            externalId: expense.externalId ?? null,
+          })));
+        }
+        if (records.assets.length > 0) {
+          await tx.insert(assets).values(records.assets.map(asset => ({
+            ...asset,
+            value: moneyToString(asset.value, asset.currency ?? baseCurrency),
+            currency: asset.currency ?? baseCurrency,
+            incomeGenerated: moneyToString(asset.incomeGenerated, asset.currency ?? baseCurrency),
+            accountId: asset.accountId ?? null,
+            notes: asset.notes ?? null,
+          })));
+          await tx.insert(assetValuations).values(records.assets.map(asset => ({
+            id: uuidv4(),
+            assetId: asset.id,
+            userId,
+            value: moneyToString(asset.value, asset.currency ?? baseCurrency),
+            valuationDate: today,
+            note: 'initial',
+            createdAt: new Date(),
+          })));
+        }
+        if (records.liabilities.length > 0) {
+          await tx.insert(liabilities).values(records.liabilities.map(liability => ({
+            ...liability,
+            amount: moneyToString(liability.amount, liability.currency ?? baseCurrency),
+            currency: liability.currency ?? baseCurrency,
+            interestRate: liability.interestRate.toString(),
+            minimumPayment: liability.minimumPayment !== undefined ? moneyToString(liability.minimumPayment, liability.currency ?? baseCurrency) : null,
+            accountId: liability.accountId ?? null,
+            notes: liability.notes ?? null,
+          })));
+          await tx.insert(liabilityValuations).values(records.liabilities.map(liability => ({
+            id: uuidv4(),
+            liabilityId: liability.id,
+            userId,
+            amount: moneyToString(liability.amount, liability.currency ?? baseCurrency),
+            valuationDate: today,
+            note: 'initial',
+            createdAt: new Date(),
+          })));
+        }
+        if (records.goals.length > 0) {
+          await tx.insert(goals).values(records.goals.map(goal => ({
+            ...goal,
+            targetAmount: moneyToString(goal.targetAmount, goal.currency ?? baseCurrency),
+            currentAmount: moneyToString(goal.currentAmount, goal.currency ?? baseCurrency),
+            currency: goal.currency ?? baseCurrency,
+            targetDate: formatDate(goal.targetDate),
+          })));
+          // Goals whose ledger is not in the bundle start it with their
+          // current amount
+          const withLedger = new Set(records.goalContributions.map(contribution => contribution.goalId));
+          const funded = records.goals.filter(goal => goal.currentAmount !== 0 && !withLedger.has(goal.id));
+          if (funded.length > 0) {
+            await tx.insert(goalContributions).values(funded.map(goal => ({
+              id: uuidv4(),
+              goalId: goal.id,
+              userId,
+              contributionDate: today,
+              amount: moneyToString(goal.currentAmount, goal.currency ?? baseCurrency),
+              kind: 'initial' as const,
+              createdAt: new Date(),
+            })));
+          }
+        }
+        if (records.goalAssets.length > 0) {
+          await tx.insert(goalAssets).values(records.goalAssets.map(link => ({
+            ...link,
+            userId,
+            percentage: link.percentage.toString(),
+          })));
+        }
+        if (records.goalContributions.length > 0) {
+          const goalCurrency = new Map(records.goals.map(goal => [goal.id, goal.currency ?? baseCurrency]));
+          await tx.insert(goalContributions).values(records.goalContributions.map(contribution => ({
+            ...contribution,
+            userId,
+            assetId: contribution.assetId ?? null,
+            contributionDate: formatDate(contribution.contributionDate),
+            amount: moneyToString(contribution.amount, goalCurrency.get(contribution.goalId)),
+            note: contribution.note ?? null,
+          })));
+        }
+      });
+    } catch (error) {
+      console.error('Error restoring records:', error);
+      throw error;
+    }
+  }
+
+  async getExistingExternalIds(userId: number, externalIds: string[]): Promise<Set<string>> {
+    if (externalIds.length === 0) return new Set();
+    const [expenseIds, incomeIds] = await Promise.all([
+      db
+        .select({ externalId: expenses.externalId })
+        .from(expenses)
+        .where(and(eq(expenses.userId, userId), inArray(expenses.externalId, externalIds))),
+      db
+        .select({ externalId: incomes.externalId })
+        .from(incomes)
+        .where(and(eq(incomes.userId, userId), inArray(incomes.externalId, externalIds))),
+    ]);
+    return new Set([...expenseIds, ...incomeIds].map(row => row.externalId!));
+  }
+
+  // Net worth snapshot methods
+  private mapNetWorthSnapshot(snapshot: typeof netWorthSnapshots.$inferSelect): NetWorthSnapshot {
+    return {
+      ...snapshot,
+      snapshotDate: parseDateColumn(snapshot.snapshotDate),
+      totalAssets: parseMoney(snapshot.totalAssets),
+      totalLiabilities: parseMoney(snapshot.totalLiabilities),
+      netWorth: parseMoney(snapshot.netWorth),
+      createdAt: snapshot.createdAt ?? new Date(),
+    };
+  }
+
+  // Exchange rate methods
+  private mapExchangeRate(rate: typeof exchangeRates.$inferSelect): ExchangeRate {
+    return {
+      ...rate,
+      rate: parseFloat(rate.rate),
+      rateDate: parseDateColumn(rate.rateDate),
+      source: rate.source as ExchangeRate["source"],
+      createdAt: rate.createdAt ?? new Date(),
+    };
+  }
+
+  async getExchangeRates(userId: number): Promise<ExchangeRate[]> {
+    const result = await db
+      .select()
+      .from(exchangeRates)
+      .where(eq(exchangeRates.userId, userId))
+      .orderBy(asc(exchangeRates.currency), asc(exchangeRates.quoteCurrency), asc(exchangeRates.rateDate));
+    return result.map(rate => this.mapExchangeRate(rate));
+  }
+
+  async saveExchangeRates(rates: Omit<ExchangeRate, "id" | "createdAt">[]): Promise<ExchangeRate[]> {
+    if (rates.length === 0) return [];
+    console.log('Saving exchange rates:', { count: rates.length });
+    // A single upsert cannot touch the same row twice, so the last rate given
+    // for a pair and date wins
+    const unique = new Map(rates.map(rate => [`${rate.userId}|${rate.currency}|${rate.quoteCurrency}|${formatDate(rate.rateDate)}`, rate]));
+    try {
+      const result = await db
+        .insert(exchangeRates)
+        .values(Array.from(unique.values()).map(rate => ({
+          id: uuidv4(),
+          ...rate,
+          rate: rate.rate.toString(),
+          rateDate: formatDate(rate.rateDate),
+          createdAt: new Date(),
+        })))
+        .onConflictDoUpdate({
+          target: [exchangeRates.userId, exchangeRates.currency, exchangeRates.quoteCurrency, exchangeRates.rateDate],
+          set: { rate: sql`excluded.rate`, source: sql`excluded.source` },
+        })
+        .returning();
+      return result.map(rate => this.mapExchangeRate(rate));
+    } catch (error) {
+      console.error('Error saving exchange rates:', error);
+      throw error;
+    }
+  }
+
+  async deleteExchangeRate(id: string, userId: number): Promise<void> {
+    console.log('Deleting exchange rate:', { id, userId });
+    try {
+      await db.delete(exchangeRates).where(and(eq(exchangeRates.id, id), eq(exchangeRates.userId, userId)));
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error);
+      throw error;
+    }
+  }
+
+  async recordNetWorthSnapshot(userId: number, date: Date = new Date()): Promise<NetWorthSnapshot> {
+    console.log('Recording net worth snapshot:', { userId, date });
+    const [userAssets, userLiabilities, baseCurrency, rates] = await Promise.all([
+      this.getAllAssets(userId),
+      this.getAllLiabilities(userId),
+      this.getBaseCurrency(userId),
+      this.getExchangeRates(userId),
+    ]);
+
+    // Snapshots are in the base currency at the rates of the snapshot date.
+    // Amounts without a rate are left out and their currency recorded on the
+    // snapshot, so the totals never mix currencies.
+    const converter = new CurrencyConverter(baseCurrency, rates);
+    const missing = new Set<string>();
+    const toBase = (amount: number, currency: string | undefined) => {
+      const converted = converter.convert(amount, currency, date);
+      if (converted === undefined) missing.add(currency!);
+      return converted;
+    };
+    const assetValues = userAssets
+      .map(asset => ({ category: asset.category, value: toBase(asset.value, asset.currency) }))
+      .filter((asset): asset is { category: string; value: number } => asset.value !== undefined);
+    const liabilityAmounts = userLiabilities
+      .map(liability => ({ type: liability.type, amount: toBase(liability.amount, liability.currency) }))
+      .filter((liability): liability is { type: string; amount: number } => liability.amount !== undefined);
+    if (missing.size > 0) {
+      console.warn('No exchange rate for net worth snapshot:', { userId, baseCurrency, missingCurrencies: Array.from(missing) });
+    }
+
+    const assetsByCategory: Record<string, number> = {};
+    assetValues.forEach(asset => {
+      assetsByCategory[asset.category] = sumMoney([assetsByCategory[asset.category] ?? 0, asset.value], baseCurrency);
+    });
+    const liabilitiesByType: Record<string, number> = {};
+    liabilityAmounts.forEach(liability => {
+      liabilitiesByType[liability.type] = sumMoney([liabilitiesByType[liability.type] ?? 0, liability.amount], baseCurrency);
+    });
+
+    const totalAssets = sumMoney(assetValues.map(asset => asset.value), baseCurrency);
+    const totalLiabilities = sumMoney(liabilityAmounts.map(liability => liability.amount), baseCurrency);
+    const snapshotData = {
+      totalAssets: moneyToString(totalAssets, baseCurrency),
+      totalLiabilities: moneyToString(totalLiabilities, baseCurrency),
+      netWorth: moneyToString(subtractMoney(totalAssets, totalLiabilities, baseCurrency), baseCurrency),
+      assetsByCategory,
+      liabilitiesByType,
+      missingCurrencies: Array.from(missing).sort(),
+    };
+
+    try {
+      // Keep a single snapshot per day, overwritten by the latest change
+      const result = await db
+        .insert(netWorthSnapshots)
+        .values({ id: uuidv4(), userId, snapshotDate: formatDate(date), ...snapshotData, createdAt: new Date() })
+        .onConflictDoUpdate({
+          target: [netWorthSnapshots.userId, netWorthSnapshots.snapshotDate],
+          set: snapshotData,
+        })
+        .returning();
+      console.log('Record net worth snapshot result:', result[0]);
+      return this.mapNetWorthSnapshot(result[0]);
+    } catch (error) {
+      console.error('Error recording net worth snapshot:', error);
+      throw error;
+    }
+  }
+
+  // Snapshots taken from a valuation's date until the record's next
+  // valuation counted the value it replaces, so each is moved by the
+  // difference, converted at the rate of the snapshot's own date. Snapshots
+  // that left the record's currency out for lack of a rate stay as they are.
+  private async reviseNetWorthSnapshots(userId: number, revision: {
+    side: 'assets' | 'liabilities';
+    group: string;
+    currency?: string;
+    from: string;
+    until?: string;
+    previous: number;
+    amount: number;
+  }): Promise<void> {
+    if (revision.amount === revision.previous) return;
+    const [snapshots, baseCurrency, rates] = await Promise.all([
+      db.select().from(netWorthSnapshots).where(and(
+        eq(netWorthSnapshots.userId, userId),
+        gte(netWorthSnapshots.snapshotDate, revision.from),
+        revision.until ? lt(netWorthSnapshots.snapshotDate, revision.until) : undefined
+      )),
+      this.getBaseCurrency(userId),
+      this.getExchangeRates(userId),
+    ]);
+    if (snapshots.length === 0) return;
+    console.log('Revising net worth snapshots:', { userId, ...revision, count: snapshots.length });
+
+    const converter = new CurrencyConverter(baseCurrency, rates);
+    await db.transaction(async (tx) => {
+      for (const snapshot of snapshots) {
+        if (revision.currency && snapshot.missingCurrencies.includes(revision.currency)) continue;
+        const date = parseDateColumn(snapshot.snapshotDate);
+        const amount = converter.convert(revision.amount, revision.currency, date);
+        const previous = converter.convert(revision.previous, revision.currency, date);
+        if (amount === undefined || previous === undefined) continue;
+        const change = subtractMoney(amount, previous, baseCurrency);
+        let totalAssets = parseMoney(snapshot.totalAssets);
+        let totalLiabilities = parseMoney(snapshot.totalLiabilities);
+        const assetsByCategory = { ...snapshot.assetsByCategory };
+        const liabilitiesByType = { ...snapshot.liabilitiesByType };
+        if (revision.side === 'assets') {
+          assetsByCategory[revision.group] = sumMoney([assetsByCategory[revision.group] ?? 0, change], baseCurrency);
+          totalAssets = sumMoney([totalAssets, change], baseCurrency);
+        } else {
+          liabilitiesByType[revision.group] = sumMoney([liabilitiesByType[revision.group] ?? 0, change], baseCurrency);
+          totalLiabilities = sumMoney([totalLiabilities, change], baseCurrency);
+        }
+        await tx
+          .update(netWorthSnapshots)
+          .set({
+            totalAssets: moneyToString(totalAssets, baseCurrency),
+            totalLiabilities: moneyToString(totalLiabilities, baseCurrency),
+            netWorth: moneyToString(subtractMoney(totalAssets, totalLiabilities, baseCurrency), baseCurrency),
+            assetsByCategory,
+            liabilitiesByType,
+          })
+          .where(eq(netWorthSnapshots.id, snapshot.id));
+      }
+    });
+  }
+
+  async getNetWorthSnapshots(userId: number, from: Date, to: Date): Promise<NetWorthSnapshot[]> {
+    console.log('Getting net worth snapshots:', { userId, from, to });
+    const result = await db
+      .select()
+      .from(netWorthSnapshots)
+      .where(and(
+        eq(netWorthSnapshots.userId, userId),
+        gte(netWorthSnapshots.snapshotDate, formatDate(from)),
+        lte(netWorthSnapshots.snapshotDate, formatDate(to))
+      ))
+      .orderBy(asc(netWorthSnapshots.snapshotDate));
+    return result.map(snapshot => this.mapNetWorthSnapshot(snapshot));
+  }
+
+  async getNetWorthSnapshotBefore(userId: number, date: Date): Promise<NetWorthSnapshot | undefined> {
+    console.log('Getting net worth snapshot before:', { userId, date });
+    const result = await db
+      .select()
+      .from(netWorthSnapshots)
+      .where(and(eq(netWorthSnapshots.userId, userId), lt(netWorthSnapshots.snapshotDate, formatDate(date))))
+      .orderBy(desc(netWorthSnapshots.snapshotDate))
+      .limit(1);
+    return result[0] ? this.mapNetWorthSnapshot(result[0]) : undefined;
+  }
+
+  // AI conversation methods
+  private mapAIMessage(message: typeof aiMessages.$inferSelect): AIMessage {
+    return {
+      ...message,
+      model: message.model ?? undefined,
+      promptTokens: message.promptTokens ?? undefined,
+      completionTokens: message.completionTokens ?? undefined,
+    };
+  }
+
+  async getConversations(userId: number): Promise<AIConversation[]> {
+    console.log('Getting AI conversations for user:', userId);
+    return db
+      .select()
+      .from(aiConversations)
+      .where(eq(aiConversations.userId, userId))
+      .orderBy(desc(aiConversations.updatedAt));
+  }
+
+  async getConversation(id: string, userId: number): Promise<AIConversation | undefined> {
+    console.log('Getting AI conversation:', { id, userId });
+    const result = await db
+      .select()
+      .from(aiConversations)
+      .where(and(eq(aiConversations.id, id), eq(aiConversations.userId, userId)));
+    return result[0];
+  }
+
+  async createConversation(conversation: Omit<AIConversation, "id" | "createdAt" | "updatedAt">): Promise<AIConversation> {
+    console.log('Creating AI conversation:', conversation);
+    const now = new Date();
+    try {
+      const result = await db
+        .insert(aiConversations)
+        .values({ id: uuidv4(), ...conversation, createdAt: now, updatedAt: now })
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error creating AI conversation:', error);
+      throw error;
+    }
+  }
+
+  async deleteConversation(id: string, userId: number): Promise<void> {
+    console.log('Deleting AI conversation:', { id, userId });
+    try {
+      // Messages cascade with the conversation
+      await db.delete(aiConversations).where(and(eq(aiConversations.id, id), eq(aiConversations.userId, userId)));
+    } catch (error) {
+      console.error('Error deleting AI conversation:', error);
+      throw error;
+    }
+  }
+
+  async getConversationMessages(conversationId: string, userId: number): Promise<AIMessage[]> {
+    console.log('Getting AI messages:', { conversationId, userId });
+    const result = await db
+      .select()
+      .from(aiMessages)
+      .where(and(eq(aiMessages.conversationId, conversationId), eq(aiMessages.userId, userId)))
+      .orderBy(asc(aiMessages.createdAt));
+    return result.map(message => this.mapAIMessage(message));
+  }
+
+  async addConversationMessages(conversationId: string, messages: Omit<AIMessage, "id" | "conversationId" | "createdAt">[]): Promise<AIMessage[]> {
+    console.log('Adding AI messages:', { conversationId, count: messages.length });
+    const now = Date.now();
+    // Spread the timestamps by a millisecond so a turn keeps its order
+    const rows = messages.map((message, index) => ({
+      id: uuidv4(),
+      conversationId,
+      ...message,
+      model: message.model ?? null,
+      promptTokens: message.promptTokens ?? null,
+      completionTokens: message.completionTokens ?? null,
+      createdAt: new Date(now + index),
+    }));
+    try {
+      const inserted = await db.transaction(async (tx) => {
+        const result = await tx.insert(aiMessages).values(rows).returning();
+        await tx
+          .update(aiConversations)
+          .set({ updatedAt: new Date(now) })
+          .where(eq(aiConversations.id, conversationId));
+        return result;
+      });
+      return inserted.map(message => this.mapAIMessage(message));
+    } catch (error) {
+      console.error('Error adding AI messages:', error);
+      throw error;
+    }
+  }
+
+  private mapPendingAction(action: typeof aiPendingActions.$inferSelect): AIPendingAction {
+    return {
+      ...action,
+      conversationId: action.conversationId ?? undefined,
+      result: action.result ?? undefined,
+      error: action.error ?? undefined,
+      resolvedAt: action.resolvedAt ?? undefined,
+    };
+  }
+
+  async createPendingAction(action: Pick<AIPendingAction, "userId" | "conversationId" | "tool" | "arguments" | "description">): Promise<AIPendingAction> {
+    console.log('Creating AI pending action:', action);
+    try {
+      const result = await db
+        .insert(aiPendingActions)
+        .values({
+          id: uuidv4(),
+          ...action,
+          conversationId: action.conversationId ?? null,
+          status: 'pending',
+          createdAt: new Date(),
+        })
+        .returning();
+      return this.mapPendingAction(result[0]);
+    } catch (error) {
+      console.error('Error creating AI pending action:', error);
+      throw error;
+    }
+  }
+
+  async getPendingActions(userId: number, status?: AIPendingAction["status"]): Promise<AIPendingAction[]> {
+    console.log('Getting AI pending actions:', { userId, status });
+    const conditions = [eq(aiPendingActions.userId, userId)];
+    if (status) conditions.push(eq(aiPendingActions.status, status));
+    const result = await db
+      .select()
+      .from(aiPendingActions)
+      .where(and(...conditions))
+      .orderBy(desc(aiPendingActions.createdAt));
+    return result.map(action => this.mapPendingAction(action));
+  }
+
+  async getPendingAction(id: string, userId: number): Promise<AIPendingAction | undefined> {
+    console.log('Getting AI pending action:', { id, userId });
+    const result = await db
+      .select()
+      .from(aiPendingActions)
+      .where(and(eq(aiPendingActions.id, id), eq(aiPendingActions.userId, userId)));
+    return result[0] ? this.mapPendingAction(result[0]) : undefined;
+  }
+
+  async resolvePendingAction(id: string, userId: number, status: "confirmed" | "rejected"): Promise<AIPendingAction | undefined> {
+    console.log('Resolving AI pending action:', { id, userId, status });
+    const result = await db
+      .update(aiPendingActions)
+      .set({ status, resolvedAt: new Date() })
+      .where(and(
+        eq(aiPendingActions.id, id),
+        eq(aiPendingActions.userId, userId),
+        eq(aiPendingActions.status, 'pending')
+      ))
+      .returning();
+    return result[0] ? this.mapPendingAction(result[0]) : undefined;
+  }
+
+  async completePendingAction(id: string, outcome: { result: unknown } | { error: string }): Promise<void> {
+    console.log('Completing AI pending action:', { id, outcome });
+    await db
+      .update(aiPendingActions)
+      .set('error' in outcome ? { status: 'failed', error: outcome.error } : { result: outcome.result })
+      .where(eq(aiPendingActions.id, id));
+  }
 }
 
 export const storage = new PostgresStorage();
@@ -0,0 +1,237 @@
+import type { Income, Expense, Asset, Liability, Goal } from '@shared/schema';
+import type { IStorage } from './storage';
+import { roundMoney, subtractMoney, sumMoney } from '@shared/money';
+import { parseDateParam, addDays } from './dates';
+import { CurrencyConverter, convertFinancialData, appliedRates, type AppliedRate, type ConvertedFinancialData } from './currency';
+
+export interface FinancialData {
+  incomes: Income[];
+  expenses: Expense[];
+  assets: Asset[];
+  liabilities: Liability[];
+  goals: Goal[];
+}
+
+// Date window the summary is computed for; `to` is exclusive
+export interface SummaryWindow {
+  from: Date;
+  to: Date;
+}
+
+export interface FinancialSummary {
+  totalIncome: number;
+  totalExpenses: number;
+  cashFlow: number;
+  perDay: number;
+  passiveIncome: number;
+  netWorth: number;
+  netWorthChange: number;
+  largestExpenseCategory: string;
+  largestExpenseAmount: number;
+  totalAssets: number;
+  totalLiabilities: number;
+  from: string;
+  to: string;
+  // Base currency of every amount above, and the rates used to get there
+  currency: string;
+  exchangeRates: AppliedRate[];
+  // Currencies without a rate, whose amounts are left out here or were left
+  // out of the snapshot the net worth change is measured from
+  missingCurrencies: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How many times per month an income of each frequency is received
+const MONTHLY_FREQUENCY_FACTORS: Record<Income['frequency'], number> = {
+  'monthly': 1,
+  'bi-weekly': 26 / 12,
+  'weekly': 52 / 12,
+  'annually': 1 / 12,
+  'one-time': 0,
+};
+
+// Convert an income amount to its monthly equivalent
+export function toMonthlyAmount(amount: number, frequency: Income['frequency']): number {
+  return amount * MONTHLY_FREQUENCY_FACTORS[frequency];
+}
+
+// Default window is the current calendar month
+export function getDefaultSummaryWindow(now: Date = new Date()): SummaryWindow {
+  return {
+    from: new Date(now.getFullYear(), now.getMonth(), 1),
+    to: new Date(now.getFullYear(), now.getMonth() + 1, 1),
+  };
+}
+
+// Build a window from inclusive from/to date parameters, falling back to the
+// current month for whichever bound is missing
+export function parseSummaryWindow(from: unknown, to: unknown): SummaryWindow | undefined {
+  const defaults = getDefaultSummaryWindow();
+  const fromDate = from === undefined ? defaults.from : parseDateParam(from);
+  const toDate = to === undefined ? defaults.to : parseDateParam(to);
+  if (!fromDate || !toDate) return undefined;
+
+  const window = {
+    from: fromDate,
+    to: to === undefined ? toDate : addDays(toDate, 1),
+  };
+  return window.from < window.to ? window : undefined;
+}
+
+// Number of calendar months covered by the window, with partial months
+// counted as the fraction of that month's days
+export function monthsInWindow(window: SummaryWindow): number {
+  let months = 0;
+  let cursor = new Date(window.from);
+
+  while (true) {
+    const next = new Date(cursor.getFullYear(), cursor.getMonth() + 1, cursor.getDate());
+    if (next > window.to) break;
+    months++;
+    cursor = next;
+  }
+
+  const remaining = window.to.getTime() - cursor.getTime();
+  if (remaining > 0) {
+    const daysInMonth = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 0).getDate();
+    months += remaining / (daysInMonth * DAY_MS);
+  }
+
+  return months;
+}
+
+export function isInWindow(date: Date, window: SummaryWindow): boolean {
+  const time = new Date(date).getTime();
+  return time >= window.from.getTime() && time < window.to.getTime();
+}
+
+// Income received during the window: recurring incomes are normalized to a
+// monthly amount and scaled by the part of the window they are active in,
+// one-time incomes count when they fall inside the window. Prorated amounts
+// are rounded to the income's currency.
+export function incomeForWindow(income: Income, window: SummaryWindow): number {
+  if (income.frequency === 'one-time') {
+    return isInWindow(income.startDate, window) ? income.amount : 0;
+  }
+
+  const activeWindow = {
+    from: income.startDate > window.from ? income.startDate : window.from,
+    to: income.endDate && addDays(income.endDate, 1) < window.to ? addDays(income.endDate, 1) : window.to,
+  };
+  if (activeWindow.from >= activeWindow.to) return 0;
+
+  return roundMoney(toMonthlyAmount(income.amount, income.frequency) * monthsInWindow(activeWindow), income.currency);
+}
+
+export async function loadFinancialData(storage: IStorage, userId: number): Promise<FinancialData> {
+  const [incomes, expenses, assets, liabilities, goals] = await Promise.all([
+    storage.getAllIncomes(userId),
+    storage.getAllExpenses(userId),
+    storage.getAllAssets(userId),
+    storage.getAllLiabilities(userId),
+    storage.getAllGoals(userId),
+  ]);
+  return { incomes, expenses, assets, liabilities, goals };
+}
+
+// Financial data with every amount in the user's base currency; see
+// convertFinancialData for which rate each record uses
+export async function loadConvertedFinancialData(
+  storage: IStorage,
+  userId: number,
+  asOf: Date = new Date()
+): Promise<ConvertedFinancialData> {
+  const [data, baseCurrency, rates] = await Promise.all([
+    loadFinancialData(storage, userId),
+    storage.getBaseCurrency(userId),
+    storage.getExchangeRates(userId),
+  ]);
+  return convertFinancialData(data, new CurrencyConverter(baseCurrency, rates), asOf);
+}
+
+// `previousNetWorth` is the net worth recorded before the window started,
+// used to report how much it changed over the window
+export function calculateFinancialSummary(
+  data: ConvertedFinancialData,
+  window: SummaryWindow,
+  previousNetWorth?: number
+): FinancialSummary {
+  const { currency } = data;
+  const windowIncomes = data.incomes.filter(income => incomeForWindow(income, window) > 0);
+  const totalIncome = sumMoney(windowIncomes.map(income => incomeForWindow(income, window)), currency);
+  const passiveIncome = sumMoney(
+    windowIncomes.filter(income => income.type === 'passive').map(income => incomeForWindow(income, window)),
+    currency
+  );
+
+  const windowExpenses = data.expenses.filter(expense => isInWindow(expense.date, window));
+  const totalExpenses = sumMoney(windowExpenses.map(expense => expense.amount), currency);
+
+  const byCategory = new Map<string, number>();
+  windowExpenses.forEach(expense => {
+    byCategory.set(expense.category, sumMoney([byCategory.get(expense.category) ?? 0, expense.amount], currency));
+  });
+
+  let largestExpenseCategory = '';
+  let largestExpenseAmount = 0;
+  byCategory.forEach((amount, category) => {
+    if (amount > largestExpenseAmount) {
+      largestExpenseCategory = category;
+      largestExpenseAmount = amount;
+    }
+  });
+
+  const totalAssets = sumMoney(data.assets.map(asset => asset.value), currency);
+  const totalLiabilities = sumMoney(data.liabilities.map(liability => liability.amount), currency);
+
+  const netWorth = subtractMoney(totalAssets, totalLiabilities, currency);
+  const cashFlow = subtractMoney(totalIncome, totalExpenses, currency);
+  const days = Math.max(1, Math.round((window.to.getTime() - window.from.getTime()) / DAY_MS));
+
+  return {
+    totalIncome,
+    totalExpenses,
+    cashFlow,
+    perDay: roundMoney(cashFlow / days, currency),
+    passiveIncome,
+    netWorth,
+    netWorthChange: previousNetWorth === undefined ? 0 : subtractMoney(netWorth, previousNetWorth, currency),
+    largestExpenseCategory,
+    largestExpenseAmount,
+    totalAssets,
+    totalLiabilities,
+    from: window.from.toISOString(),
+    to: window.to.toISOString(),
+    currency,
+    exchangeRates: appliedRates([...windowIncomes, ...windowExpenses, ...data.assets, ...data.liabilities]),
+    missingCurrencies: data.missingCurrencies,
+  };
+}
+
+// Summarize already loaded data, comparing net worth with the last snapshot
+// taken before the window
+export async function buildFinancialSummary(
+  storage: IStorage,
+  userId: number,
+  data: ConvertedFinancialData,
+  window: SummaryWindow
+): Promise<FinancialSummary> {
+  const previous = await storage.getNetWorthSnapshotBefore(userId, window.from);
+  const summary = calculateFinancialSummary(data, window, previous?.netWorth);
+  return {
+    ...summary,
+    missingCurrencies: Array.from(new Set([...summary.missingCurrencies, ...(previous?.missingCurrencies ?? [])])).sort(),
+  };
+}
+
+export async function getFinancialSummary(
+  storage: IStorage,
+  userId: number,
+  window: SummaryWindow = getDefaultSummaryWindow()
+): Promise<FinancialSummary> {
+  // Balances are converted at the rates in effect when the window ends
+  const now = new Date();
+  const data = await loadConvertedFinancialData(storage, userId, window.to < now ? addDays(window.to, -1) : now);
+  return buildFinancialSummary(storage, userId, data, window);
+}
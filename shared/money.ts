@@ -0,0 +1,73 @@
+// Money amounts travel as plain numbers in JSON and the zod types, but each
+// one holds a whole number of its currency's minor units (cents, pence,
+// yen, fils). Rounding, sums and differences go through integer minor units
+// so totals match a bank statement to the last unit.
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// The most minor-unit digits any ISO 4217 currency uses (BHD, KWD, OMR)
+export const MAX_MONEY_DECIMALS = 3;
+
+const decimalsByCurrency = new Map<string, number>();
+
+// Minor-unit digits of a currency: 2 for USD and EUR, 0 for JPY, 3 for KWD.
+// Unknown codes get 2.
+export function currencyDecimals(currency: string = DEFAULT_CURRENCY): number {
+  let decimals = decimalsByCurrency.get(currency);
+  if (decimals === undefined) {
+    try {
+      decimals = new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+      decimals = 2;
+    }
+    decimalsByCurrency.set(currency, decimals);
+  }
+  return decimals;
+}
+
+// Moves the decimal point through the number's written form, so 1.005 is
+// 100.5 cents rather than the 100.49999999999999 that 1.005 * 100 gives
+function shiftDecimal(value: number, places: number): number {
+  const [mantissa, exponent = '0'] = String(value).split('e');
+  return Number(`${mantissa}e${Number(exponent) + places}`);
+}
+
+// Rounds half away from zero: 0.125 USD is 13 cents, -0.125 is -13
+export function toMinorUnits(amount: number, currency?: string): number {
+  const units = Math.round(shiftDecimal(Math.abs(amount), currencyDecimals(currency)));
+  return amount < 0 ? -units : units;
+}
+
+export function fromMinorUnits(units: number, currency?: string): number {
+  return shiftDecimal(units, -currencyDecimals(currency));
+}
+
+export function roundMoney(amount: number, currency?: string): number {
+  return fromMinorUnits(toMinorUnits(amount, currency), currency);
+}
+
+export function sumMoney(amounts: number[], currency?: string): number {
+  return fromMinorUnits(amounts.reduce((sum, amount) => sum + toMinorUnits(amount, currency), 0), currency);
+}
+
+export function subtractMoney(amount: number, subtrahend: number, currency?: string): number {
+  return fromMinorUnits(toMinorUnits(amount, currency) - toMinorUnits(subtrahend, currency), currency);
+}
+
+// Reads a numeric column as is, without rounding. Storage writes amounts
+// through moneyToString and migration 019 rounded older rows, so the text
+// holds at most the currency's minor-unit digits and Number gives the
+// nearest double to it, the same value moneyToString started from.
+export function parseMoney(value: string): number {
+  return Number(value);
+}
+
+// Text for a numeric column, rounded to the currency and written out from
+// the minor units so no float digits leak into the database
+export function moneyToString(amount: number, currency?: string): string {
+  const units = toMinorUnits(amount, currency);
+  const decimals = currencyDecimals(currency);
+  const digits = Math.abs(units).toString().padStart(decimals + 1, '0');
+  const whole = decimals > 0 ? `${digits.slice(0, -decimals)}.${digits.slice(-decimals)}` : digits;
+  return units < 0 ? `-${whole}` : whole;
+}
@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean, numeric, timestamp, uuid, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, numeric, timestamp, uuid, date, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { MAX_MONEY_DECIMALS } from "./money";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -10,6 +11,7 @@ export const users = pgTable("users", {
   googleId: text("google_id").unique(),
   googleName: text("google_name"),
   googlePicture: text("google_picture"),
+  baseCurrency: text("base_currency").notNull().default("USD"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   lastLogin: timestamp("last_login"),
 });
@@ -21,6 +23,7 @@ export const insertUserSchema = createInsertSchema(users).pick({
   googleId: true,
   googleName: true,
   googlePicture: true,
+  baseCurrency: true,
   lastLogin: true,
 });
 
@@ -31,8 +34,47 @@ export const incomes = pgTable("incomes", {
   source: text("source").notNull(),
   category: text("category").notNull(),
   amount: numeric("amount").notNull(),
+  currency: text("currency").notNull().default("USD"),
   type: text("type", { enum: ["active", "passive"] }).notNull(),
   frequency: text("frequency", { enum: ["monthly", "bi-weekly", "weekly", "annually", "one-time"] }).notNull(),
+  startDate: date("start_date").defaultNow().notNull(),
+  endDate: date("end_date"),
+  payDay: integer("pay_day"),
+  notes: text("notes"),
+  externalId: text("external_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userExternalIdIdx: uniqueIndex("incomes_user_external_id_idx").on(table.userId, table.externalId),
+  userStartDateIdx: index("incomes_user_start_date_idx").on(table.userId, table.startDate, table.id),
+  userCreatedAtIdx: index("incomes_user_created_at_idx").on(table.userId, table.createdAt, table.id),
+}));
+
+export const incomeReceipts = pgTable("income_receipts", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  incomeId: uuid("income_id").notNull().references(() => incomes.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  expectedDate: date("expected_date").notNull(),
+  receivedDate: date("received_date").notNull(),
+  amount: numeric("amount").notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  incomeExpectedDateIdx: uniqueIndex("income_receipts_income_expected_date_idx").on(table.incomeId, table.expectedDate),
+}));
+
+export const recurringExpenses = pgTable("recurring_expenses", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  category: text("category").notNull(),
+  amount: numeric("amount").notNull(),
+  currency: text("currency").notNull().default("USD"),
+  description: text("description").notNull(),
+  cadence: text("cadence", { enum: ["weekly", "bi-weekly", "monthly", "quarterly", "annually"] }).notNull(),
+  startDate: date("start_date").notNull(),
+  nextDueDate: date("next_due_date").notNull(),
+  endDate: date("end_date"),
+  payDay: integer("pay_day"),
+  status: text("status", { enum: ["active", "paused", "ended"] }).notNull().default("active"),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -42,11 +84,31 @@ export const expenses = pgTable("expenses", {
   userId: integer("user_id").notNull().references(() => users.id),
   category: text("category").notNull(),
   amount: numeric("amount").notNull(),
+  currency: text("currency").notNull().default("USD"),
   description: text("description").notNull(),
   date: timestamp("date").notNull(),
   notes: text("notes"),
+  recurringExpenseId: uuid("recurring_expense_id").references(() => recurringExpenses.id, { onDelete: "set null" }),
+  externalId: text("external_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  userExternalIdIdx: uniqueIndex("expenses_user_external_id_idx").on(table.userId, table.externalId),
+  userDateIdx: index("expenses_user_date_idx").on(table.userId, table.date, table.id),
+  userCreatedAtIdx: index("expenses_user_created_at_idx").on(table.userId, table.createdAt, table.id),
+}));
+
+export const budgets = pgTable("budgets", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  category: text("category").notNull(),
+  month: text("month").notNull(),
+  limitAmount: numeric("limit_amount").notNull(),
+  currency: text("currency").notNull().default("USD"),
+  rollover: boolean("rollover").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userCategoryMonthIdx: uniqueIndex("budgets_user_category_month_idx").on(table.userId, table.category, table.month),
+}));
 
 export const assets = pgTable("assets", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -54,10 +116,14 @@ export const assets = pgTable("assets", {
   name: text("name").notNull(),
   category: text("category").notNull(),
   value: numeric("value").notNull(),
+  currency: text("currency").notNull().default("USD"),
   incomeGenerated: numeric("income_generated").notNull(),
+  accountId: text("account_id"),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  userCreatedAtIdx: index("assets_user_created_at_idx").on(table.userId, table.createdAt, table.id),
+}));
 
 export const liabilities = pgTable("liabilities", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -65,10 +131,15 @@ export const liabilities = pgTable("liabilities", {
   description: text("description").notNull(),
   type: text("type").notNull(),
   amount: numeric("amount").notNull(),
+  currency: text("currency").notNull().default("USD"),
   interestRate: numeric("interest_rate").notNull(),
+  minimumPayment: numeric("minimum_payment"),
+  accountId: text("account_id"),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  userCreatedAtIdx: index("liabilities_user_created_at_idx").on(table.userId, table.createdAt, table.id),
+}));
 
 export const goals = pgTable("goals", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -76,44 +147,218 @@ export const goals = pgTable("goals", {
   description: text("description").notNull(),
   targetAmount: numeric("target_amount").notNull(),
   currentAmount: numeric("current_amount").notNull(),
+  currency: text("currency").notNull().default("USD"),
   targetDate: date("target_date").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userTargetDateIdx: index("goals_user_target_date_idx").on(table.userId, table.targetDate, table.id),
+  userCreatedAtIdx: index("goals_user_created_at_idx").on(table.userId, table.createdAt, table.id),
+}));
+
+// A contribution is money the user put in (or took out); the other kinds are
+// booked by the server so the ledger keeps adding up to the current amount:
+// the opening balance, direct edits of the amount, and changes in linked assets
+export const goalContributionKinds = ["contribution", "initial", "adjustment", "linked"] as const;
+
+export const goalContributions = pgTable("goal_contributions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  goalId: uuid("goal_id").notNull().references(() => goals.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  assetId: uuid("asset_id").references(() => assets.id, { onDelete: "set null" }),
+  contributionDate: date("contribution_date").notNull(),
+  amount: numeric("amount").notNull(),
+  kind: text("kind", { enum: goalContributionKinds }).notNull().default("contribution"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Assets whose value counts towards a goal, optionally only in part
+export const goalAssets = pgTable("goal_assets", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  goalId: uuid("goal_id").notNull().references(() => goals.id, { onDelete: "cascade" }),
+  assetId: uuid("asset_id").notNull().references(() => assets.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  percentage: numeric("percentage").notNull().default("100"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  goalAssetIdx: uniqueIndex("goal_assets_goal_asset_idx").on(table.goalId, table.assetId),
+}));
+
+export const assetValuations = pgTable("asset_valuations", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  assetId: uuid("asset_id").notNull().references(() => assets.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  value: numeric("value").notNull(),
+  valuationDate: date("valuation_date").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const liabilityValuations = pgTable("liability_valuations", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  liabilityId: uuid("liability_id").notNull().references(() => liabilities.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  amount: numeric("amount").notNull(),
+  valuationDate: date("valuation_date").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Rates maintained by the user: one unit of `currency` is worth `rate` units
+// of `quoteCurrency` on `rateDate`
+export const exchangeRates = pgTable("exchange_rates", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  currency: text("currency").notNull(),
+  quoteCurrency: text("quote_currency").notNull(),
+  rate: numeric("rate").notNull(),
+  rateDate: date("rate_date").notNull(),
+  source: text("source", { enum: ["manual", "csv"] }).notNull().default("manual"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userPairDateIdx: uniqueIndex("exchange_rates_user_pair_date_idx").on(table.userId, table.currency, table.quoteCurrency, table.rateDate),
+}));
+
+export const netWorthSnapshots = pgTable("net_worth_snapshots", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  snapshotDate: date("snapshot_date").notNull(),
+  totalAssets: numeric("total_assets").notNull(),
+  totalLiabilities: numeric("total_liabilities").notNull(),
+  netWorth: numeric("net_worth").notNull(),
+  assetsByCategory: jsonb("assets_by_category").$type<Record<string, number>>().notNull(),
+  liabilitiesByType: jsonb("liabilities_by_type").$type<Record<string, number>>().notNull(),
+  // Currencies without a rate on the snapshot date, whose amounts are left out
+  missingCurrencies: jsonb("missing_currencies").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userDateIdx: uniqueIndex("net_worth_snapshots_user_date_idx").on(table.userId, table.snapshotDate),
+}));
+
+export const aiConversations = pgTable("ai_conversations", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  title: text("title").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const aiMessages = pgTable("ai_messages", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  conversationId: uuid("conversation_id").notNull().references(() => aiConversations.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  role: text("role", { enum: ["user", "assistant"] }).notNull(),
+  content: text("content").notNull(),
+  model: text("model"),
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Writes proposed by the assistant's tools, carried out only once the user confirms
+export const aiPendingActions = pgTable("ai_pending_actions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  conversationId: uuid("conversation_id").references(() => aiConversations.id, { onDelete: "cascade" }),
+  tool: text("tool").notNull(),
+  arguments: jsonb("arguments").$type<Record<string, unknown>>().notNull(),
+  description: text("description").notNull(),
+  status: text("status", { enum: ["pending", "confirmed", "rejected", "failed"] }).notNull().default("pending"),
+  result: jsonb("result"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"),
 });
 
 // Zod schemas for validation
+// Amounts are in the record's currency, defaulting to the user's base currency
+export const currencyCodeSchema = z.string().regex(/^[A-Z]{3}$/, { message: "Currency must be a three-letter ISO 4217 code" });
+
+// Storage rounds further to the minor units of the record's currency
+export const moneySchema = z.number().multipleOf(1 / 10 ** MAX_MONEY_DECIMALS, { message: "Amount has too many decimal places" });
+
 export const incomeSchema = z.object({
   id: z.string(),
   userId: z.number(),
   source: z.string(),
   category: z.string(),
-  amount: z.number(),
+  amount: moneySchema,
+  currency: currencyCodeSchema.optional(),
   type: z.enum(["active", "passive"]),
   frequency: z.enum(["monthly", "bi-weekly", "weekly", "annually", "one-time"]),
+  startDate: z.date(),
+  endDate: z.date().optional(),
+  payDay: z.number().int().min(1).max(31).optional(),
   notes: z.string().optional(),
+  externalId: z.string().optional(),
   createdAt: z.date(),
 });
 
+export const incomeReceiptSchema = z.object({
+  id: z.string().uuid(),
+  incomeId: z.string().uuid(),
+  userId: z.number(),
+  expectedDate: z.date(),
+  receivedDate: z.date(),
+  amount: moneySchema.min(0, { message: "Amount must be non-negative" }),
+  notes: z.string().optional(),
+  createdAt: z.date()
+});
+
 export const expenseSchema = z.object({
   id: z.string(),
   userId: z.number(),
   category: z.string(),
-  amount: z.number(),
+  amount: moneySchema,
+  currency: currencyCodeSchema.optional(),
   description: z.string(),
   date: z.date(),
   notes: z.string().optional(),
+  recurringExpenseId: z.string().uuid().optional(),
+  externalId: z.string().optional(),
   createdAt: z.date(),
 });
 
+export const recurringExpenseSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.number(),
+  category: z.string().min(1, { message: "Category is required" }),
+  amount: moneySchema.min(0, { message: "Amount must be non-negative" }),
+  currency: currencyCodeSchema.optional(),
+  description: z.string().min(1, { message: "Description is required" }),
+  cadence: z.enum(["weekly", "bi-weekly", "monthly", "quarterly", "annually"]),
+  startDate: z.date(),
+  nextDueDate: z.date(),
+  endDate: z.date().optional(),
+  payDay: z.number().int().min(1).max(31).optional(),
+  status: z.enum(["active", "paused", "ended"]),
+  notes: z.string().optional(),
+  createdAt: z.date()
+});
+
 export const insertIncomeSchema = incomeSchema.omit({ id: true, createdAt: true });
 export const insertExpenseSchema = expenseSchema.omit({ id: true, createdAt: true });
 
+export const budgetSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.number(),
+  category: z.string().min(1, { message: "Category is required" }),
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, { message: "Month must be YYYY-MM" }),
+  limitAmount: moneySchema.min(0, { message: "Limit must be non-negative" }),
+  currency: currencyCodeSchema.optional(),
+  rollover: z.boolean(),
+  createdAt: z.date()
+});
+
 export const assetSchema = z.object({
   id: z.string().uuid(),
   userId: z.number(),
   name: z.string().min(1, { message: "Asset name is required" }),
   category: z.string().min(1, { message: "Category is required" }),
-  value: z.number().min(0, { message: "Value must be non-negative" }),
-  incomeGenerated: z.number().min(0, { message: "Income must be non-negative" }),
+  value: moneySchema.min(0, { message: "Value must be non-negative" }),
+  currency: currencyCodeSchema.optional(),
+  incomeGenerated: moneySchema.min(0, { message: "Income must be non-negative" }),
+  accountId: z.string().optional(),
   notes: z.string().optional(),
   createdAt: z.date()
 });
@@ -123,8 +368,11 @@ export const liabilitySchema = z.object({
   userId: z.number(),
   description: z.string().min(1, { message: "Description is required" }),
   type: z.string().min(1, { message: "Type is required" }),
-  amount: z.number().min(0, { message: "Amount must be non-negative" }),
+  amount: moneySchema.min(0, { message: "Amount must be non-negative" }),
+  currency: currencyCodeSchema.optional(),
   interestRate: z.number().min(0, { message: "Interest rate must be non-negative" }),
+  minimumPayment: moneySchema.min(0, { message: "Minimum payment must be non-negative" }).optional(),
+  accountId: z.string().optional(),
   notes: z.string().optional(),
   createdAt: z.date()
 });
@@ -133,16 +381,129 @@ export const goalSchema = z.object({
   id: z.string().uuid(),
   userId: z.number(),
   description: z.string().min(1, { message: "Description is required" }),
-  targetAmount: z.number().min(0, { message: "Target amount must be non-negative" }),
-  currentAmount: z.number().min(0, { message: "Current amount must be non-negative" }),
+  targetAmount: moneySchema.min(0, { message: "Target amount must be non-negative" }),
+  currentAmount: moneySchema.min(0, { message: "Current amount must be non-negative" }),
+  currency: currencyCodeSchema.optional(),
   targetDate: z.date(),
   createdAt: z.date()
 });
 
+// Negative amounts are withdrawals
+export const goalContributionSchema = z.object({
+  id: z.string().uuid(),
+  goalId: z.string().uuid(),
+  userId: z.number(),
+  assetId: z.string().uuid().optional(),
+  contributionDate: z.date(),
+  amount: moneySchema.refine(amount => amount !== 0, { message: "Amount must not be zero" }),
+  kind: z.enum(goalContributionKinds),
+  note: z.string().optional(),
+  createdAt: z.date()
+});
+
+export const goalAssetSchema = z.object({
+  id: z.string().uuid(),
+  goalId: z.string().uuid(),
+  assetId: z.string().uuid(),
+  userId: z.number(),
+  percentage: z.number().gt(0, { message: "Percentage must be positive" }).max(100, { message: "Percentage cannot exceed 100" }),
+  createdAt: z.date()
+});
+
+export const assetValuationSchema = z.object({
+  id: z.string().uuid(),
+  assetId: z.string().uuid(),
+  userId: z.number(),
+  value: moneySchema.min(0, { message: "Value must be non-negative" }),
+  valuationDate: z.date(),
+  note: z.string().optional(),
+  createdAt: z.date()
+});
+
+export const liabilityValuationSchema = z.object({
+  id: z.string().uuid(),
+  liabilityId: z.string().uuid(),
+  userId: z.number(),
+  amount: moneySchema.min(0, { message: "Amount must be non-negative" }),
+  valuationDate: z.date(),
+  note: z.string().optional(),
+  createdAt: z.date()
+});
+
+export const exchangeRateSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.number(),
+  currency: currencyCodeSchema,
+  quoteCurrency: currencyCodeSchema,
+  rate: z.number().positive({ message: "Rate must be positive" }),
+  rateDate: z.date(),
+  source: z.enum(["manual", "csv"]),
+  createdAt: z.date()
+});
+
+export const netWorthSnapshotSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.number(),
+  snapshotDate: z.date(),
+  totalAssets: z.number(),
+  totalLiabilities: z.number(),
+  netWorth: z.number(),
+  assetsByCategory: z.record(z.number()),
+  liabilitiesByType: z.record(z.number()),
+  missingCurrencies: z.array(z.string()),
+  createdAt: z.date()
+});
+
+export const aiConversationSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.number(),
+  title: z.string().min(1, { message: "Title is required" }).max(200),
+  createdAt: z.date(),
+  updatedAt: z.date()
+});
+
+export const aiMessageSchema = z.object({
+  id: z.string().uuid(),
+  conversationId: z.string().uuid(),
+  userId: z.number(),
+  role: z.enum(["user", "assistant"]),
+  content: z.string().min(1, { message: "Message is required" }),
+  model: z.string().optional(),
+  promptTokens: z.number().int().optional(),
+  completionTokens: z.number().int().optional(),
+  createdAt: z.date()
+});
+
+export const aiPendingActionSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.number(),
+  conversationId: z.string().uuid().optional(),
+  tool: z.string(),
+  arguments: z.record(z.unknown()),
+  description: z.string(),
+  status: z.enum(["pending", "confirmed", "rejected", "failed"]),
+  result: z.unknown().optional(),
+  error: z.string().optional(),
+  createdAt: z.date(),
+  resolvedAt: z.date().optional()
+});
+
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Income = z.infer<typeof incomeSchema>;
+export type IncomeReceipt = z.infer<typeof incomeReceiptSchema>;
 export type Expense = z.infer<typeof expenseSchema>;
+export type RecurringExpense = z.infer<typeof recurringExpenseSchema>;
+export type Budget = z.infer<typeof budgetSchema>;
 export type Asset = z.infer<typeof assetSchema>;
 export type Liability = z.infer<typeof liabilitySchema>;
 export type Goal = z.infer<typeof goalSchema>;
+export type GoalContribution = z.infer<typeof goalContributionSchema>;
+export type GoalAsset = z.infer<typeof goalAssetSchema>;
+export type AssetValuation = z.infer<typeof assetValuationSchema>;
+export type LiabilityValuation = z.infer<typeof liabilityValuationSchema>;
+export type ExchangeRate = z.infer<typeof exchangeRateSchema>;
+export type NetWorthSnapshot = z.infer<typeof netWorthSnapshotSchema>;
+export type AIConversation = z.infer<typeof aiConversationSchema>;
+export type AIMessage = z.infer<typeof aiMessageSchema>;
+export type AIPendingAction = z.infer<typeof aiPendingActionSchema>;